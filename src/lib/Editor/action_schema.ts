@@ -0,0 +1,317 @@
+import {
+  choiceField as choice,
+  colorField as color,
+  getFields,
+  numberField as number,
+  textField as text,
+  tileField as tile,
+  toggleField as toggle,
+  vector2Field as vector2,
+  type FieldSpec,
+} from "./fields"
+import { EASE_NAMES } from "../Player/easing"
+
+// 事件（action）的字段定义：供检查器生成表单、创建带默认值的新事件
+
+export interface ActionSchema {
+  fields: FieldSpec[]
+  // 在预览中标记砖块的图标
+  badge: string
+}
+
+export interface AdofaiAction {
+  eventType: string
+  [key: string]: any
+}
+
+export { EASE_NAMES }
+
+export const HITSOUND_NAMES = [
+  "Hat",
+  "Kick",
+  "Shaker",
+  "Sizzle",
+  "Chuck",
+  "ShakerLoud",
+  "None",
+  "Hammer",
+  "KickChroma",
+  "SnareAcoustic2",
+  "Sidestick",
+  "Stick",
+  "ReverbClack",
+  "Squareshot",
+  "PowerDown",
+  "PowerUp",
+  "KickHouse",
+  "KickRupture",
+  "HatHouse",
+  "SnareHouse",
+  "SnareVapor",
+  "ClapHit",
+  "ClapHitEcho",
+  "ReverbClap",
+  "FireTile",
+  "IceTile",
+  "VehiclePositive",
+  "VehicleNegative",
+]
+
+export const TRACK_COLOR_TYPES = ["Single", "Stripes", "Glow", "Blink", "Switch", "Rainbow", "Volume"]
+export const TRACK_STYLES = ["Standard", "Neon", "NeonLight", "Basic", "Minimal", "Gems"]
+
+const FILTER_NAMES = [
+  "Grayscale",
+  "Sepia",
+  "Invert",
+  "VHS",
+  "EightiesTV",
+  "FiftiesTV",
+  "Arcade",
+  "LED",
+  "Rain",
+  "Blizzard",
+  "PixelSnow",
+  "Compression",
+  "Glitch",
+  "Pixelate",
+  "Waves",
+  "Static",
+  "Grain",
+  "MotionBlur",
+  "Fisheye",
+  "Aberration",
+  "Drawing",
+  "Neon",
+  "Handheld",
+  "NightVision",
+  "Funk",
+  "Tunnel",
+  "Weird3D",
+  "Blur",
+  "BlurFocus",
+  "GaussianBlur",
+  "HexagonBlack",
+  "Posterize",
+  "Sharpen",
+  "Contrast",
+  "EdgeBlackLine",
+  "OilPainting",
+  "SuperDot",
+  "WaterDrop",
+  "LightWater",
+  "Petals",
+  "PetalsInstant",
+]
+
+const ease = (key = "ease"): FieldSpec => choice(key, EASE_NAMES)
+const angleOffset = number("angleOffset", 0)
+const eventTag = text("eventTag")
+
+const TRACK_COLOR_FIELDS: FieldSpec[] = [
+  choice("trackColorType", TRACK_COLOR_TYPES),
+  color("trackColor", "debb7b"),
+  color("secondaryTrackColor", "ffffff"),
+  number("trackColorAnimDuration", 2, { min: 0 }),
+  choice("trackColorPulse", ["None", "Forward", "Backward"]),
+  number("trackPulseLength", 10, { min: 1 }),
+  choice("trackStyle", TRACK_STYLES),
+]
+
+export const ACTION_SCHEMAS: Record<string, ActionSchema> = {
+  SetSpeed: {
+    badge: "»",
+    fields: [
+      choice("speedType", ["Bpm", "Multiplier"]),
+      number("beatsPerMinute", 100, { min: 0.001 }),
+      number("bpmMultiplier", 1, { min: 0.001 }),
+      angleOffset,
+    ],
+  },
+  Twirl: { badge: "↻", fields: [] },
+  Pause: {
+    badge: "Ⅱ",
+    fields: [number("duration", 1, { min: 0 }), number("countdownTicks", 0, { min: 0 }), number("angleCorrectionDir", -1)],
+  },
+  Hold: {
+    badge: "━",
+    fields: [number("duration", 1, { min: 0 }), number("distanceMultiplier", 100), toggle("landingAnimation", false)],
+  },
+  FreeRoam: {
+    badge: "✥",
+    fields: [
+      number("duration", 16, { min: 0 }),
+      vector2("size", [4, 4]),
+      vector2("positionOffset", [0, 0]),
+      number("outTime", 4, { min: 0 }),
+      ease("outEase"),
+      choice("hitsoundOnBeats", HITSOUND_NAMES, "None"),
+      choice("hitsoundOffBeats", HITSOUND_NAMES, "None"),
+      number("countdownTicks", 4, { min: 0 }),
+      number("angleCorrectionDir", -1),
+    ],
+  },
+  SetHitsound: {
+    badge: "♪",
+    fields: [
+      choice("gameSound", ["Hitsound", "Midspin"]),
+      choice("hitsound", HITSOUND_NAMES, "Kick"),
+      number("hitsoundVolume", 100, { min: 0, max: 200 }),
+    ],
+  },
+  MultiPlanet: { badge: "◉", fields: [choice("planets", ["TwoPlanets", "ThreePlanets"], "ThreePlanets")] },
+  SetPlanetRotation: {
+    badge: "◌",
+    fields: [ease(), number("easeParts", 1, { min: 1, step: 1 }), choice("easePartBehavior", ["Mirror", "Repeat"])],
+  },
+  ScaleRadius: { badge: "⇔", fields: [number("scale", 100, { min: 0 })] },
+  ColorTrack: { badge: "▦", fields: [...TRACK_COLOR_FIELDS, text("trackTexture"), number("trackTextureScale", 1)] },
+  RecolorTrack: {
+    badge: "▦",
+    fields: [
+      tile("startTile", [0, "ThisTile"]),
+      tile("endTile", [0, "ThisTile"]),
+      ...TRACK_COLOR_FIELDS,
+      number("duration", 0, { min: 0 }),
+      angleOffset,
+      ease(),
+      eventTag,
+    ],
+  },
+  PositionTrack: {
+    badge: "✚",
+    fields: [
+      vector2("positionOffset", [0, 0]),
+      tile("relativeTo", [0, "ThisTile"]),
+      number("rotation", 0),
+      number("scale", 100),
+      number("opacity", 100, { min: 0, max: 100 }),
+      toggle("justThisTile", false),
+      toggle("editorOnly", false),
+    ],
+  },
+  MoveTrack: {
+    badge: "⇄",
+    fields: [
+      tile("startTile", [0, "ThisTile"]),
+      tile("endTile", [0, "ThisTile"]),
+      number("duration", 1, { min: 0 }),
+      vector2("positionOffset", [null, null]),
+      number("rotationOffset", 0),
+      vector2("scale", [100, 100]),
+      number("opacity", 100, { min: 0, max: 100 }),
+      angleOffset,
+      ease(),
+      eventTag,
+    ],
+  },
+  AnimateTrack: {
+    badge: "✧",
+    fields: [
+      choice("trackAnimation", ["None", "Assemble", "Assemble_Far", "Extend", "Grow", "Grow_Spin", "Fade", "Drop", "Rise"]),
+      number("beatsAhead", 3, { min: 0 }),
+      choice("trackDisappearAnimation", ["None", "Scatter", "Scatter_Far", "Retract", "Shrink", "Shrink_Spin", "Fade"]),
+      number("beatsBehind", 4, { min: 0 }),
+    ],
+  },
+  MoveCamera: {
+    badge: "◎",
+    fields: [
+      number("duration", 1, { min: 0 }),
+      choice("relativeTo", ["Player", "Tile", "Global", "LastPosition", "LastPositionNoRotation"]),
+      vector2("position", [null, null]),
+      number("rotation", 0),
+      number("zoom", 100, { min: 0 }),
+      angleOffset,
+      ease(),
+      eventTag,
+    ],
+  },
+  CustomBackground: {
+    badge: "▣",
+    fields: [
+      color("color", "000000"),
+      text("bgImage"),
+      color("imageColor", "ffffff"),
+      vector2("parallax", [100, 100]),
+      choice("bgDisplayMode", ["FitToScreen", "Unscaled", "Tiled"]),
+      toggle("lockRot", false),
+      toggle("loopBG", false),
+      number("unscaledSize", 100, { min: 0 }),
+      angleOffset,
+      eventTag,
+    ],
+  },
+  Flash: {
+    badge: "☀",
+    fields: [
+      number("duration", 1, { min: 0 }),
+      choice("plane", ["Background", "Foreground"]),
+      color("startColor", "ffffff"),
+      number("startOpacity", 100, { min: 0, max: 100 }),
+      color("endColor", "ffffff"),
+      number("endOpacity", 0, { min: 0, max: 100 }),
+      angleOffset,
+      ease(),
+      eventTag,
+    ],
+  },
+  Bloom: {
+    badge: "✺",
+    fields: [
+      toggle("enabled", true),
+      number("threshold", 50, { min: 0, max: 100 }),
+      number("intensity", 100, { min: 0 }),
+      color("color", "ffffff"),
+      number("duration", 0, { min: 0 }),
+      ease(),
+      angleOffset,
+      eventTag,
+    ],
+  },
+  ShakeScreen: {
+    badge: "≋",
+    fields: [
+      number("duration", 1, { min: 0 }),
+      number("strength", 100, { min: 0 }),
+      number("intensity", 100, { min: 0 }),
+      toggle("fadeOut", true),
+      angleOffset,
+      eventTag,
+    ],
+  },
+  SetFilter: {
+    badge: "◐",
+    fields: [
+      choice("filter", FILTER_NAMES),
+      toggle("enabled", true),
+      number("intensity", 100, { min: 0 }),
+      number("duration", 0, { min: 0 }),
+      ease(),
+      toggle("disableOthers", false),
+      angleOffset,
+      eventTag,
+    ],
+  },
+}
+
+// 未知事件使用的图标
+const DEFAULT_BADGE = "•"
+
+export function getActionBadge(eventType: string): string {
+  return ACTION_SCHEMAS[eventType]?.badge ?? DEFAULT_BADGE
+}
+
+// 带默认值的新事件
+export function createAction(eventType: string): AdofaiAction {
+  const action: AdofaiAction = { eventType }
+  for (const field of ACTION_SCHEMAS[eventType]?.fields || []) {
+    action[field.key] = Array.isArray(field.default) ? [...field.default] : field.default
+  }
+  return action
+}
+
+// 事件的所有字段，包括定义之外的字段
+export function getActionFields(action: AdofaiAction): FieldSpec[] {
+  return getFields(action, ACTION_SCHEMAS[action.eventType]?.fields || [], ["eventType", "floor"])
+}
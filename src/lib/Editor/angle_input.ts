@@ -0,0 +1,47 @@
+import { MIDSPIN_ANGLE } from "../Player/timeline"
+
+// 键盘输入角度：与官方编辑器相同的 D/E/W/Q/A/Z/X/C 布局，按物理按键识别
+
+type AngleLayout = Record<string, number>
+
+// 每个按键对应的绝对方向（度），0 为向右，逆时针增加
+const BASE_LAYOUT: AngleLayout = {
+  KeyD: 0,
+  KeyE: 45,
+  KeyW: 90,
+  KeyQ: 135,
+  KeyA: 180,
+  KeyZ: 225,
+  KeyX: 270,
+  KeyC: 315,
+}
+
+// Tab 切换的 30°/60° 布局，与官方编辑器相同：斜向的按键为 60° 的倍数
+const ALTERNATE_LAYOUT: AngleLayout = { ...BASE_LAYOUT, KeyE: 60, KeyQ: 120, KeyZ: 240, KeyC: 300 }
+
+const LAYOUTS: Record<"base" | "alternate", AngleLayout> = { base: BASE_LAYOUT, alternate: ALTERNATE_LAYOUT }
+
+/**
+ * 按住 Shift 时斜向的按键向水平方向偏转 30°
+ * 30°/60° 布局中得到 30°、150°、210°、330°（与官方编辑器相同）
+ * 基础布局中得到 15°、165°、195°、345°，官方编辑器没有这一组，是本编辑器为输入 15° 角度增加的
+ */
+const SHIFT_LAYOUTS: Record<"base" | "alternate", AngleLayout> = {
+  base: { ...BASE_LAYOUT, KeyE: 15, KeyQ: 165, KeyZ: 195, KeyC: 345 },
+  alternate: { ...ALTERNATE_LAYOUT, KeyE: 30, KeyQ: 150, KeyZ: 210, KeyC: 330 },
+}
+
+// 放置中旋的按键，位于方向键中间
+export const MIDSPIN_KEY = "KeyS"
+
+/**
+ * 按键对应的方向，不是方向键时返回 null
+ * alternate 为 Tab 切换的 30°/60° 布局
+ */
+export function getInputAngle(code: string, shift: boolean, alternate: boolean): number | null {
+  if (code === MIDSPIN_KEY) return MIDSPIN_ANGLE
+
+  const layouts = shift ? SHIFT_LAYOUTS : LAYOUTS
+  const angle = layouts[alternate ? "alternate" : "base"][code]
+  return angle === undefined ? null : angle
+}
@@ -0,0 +1,71 @@
+// 可编辑字段的类型定义，事件检查器与关卡设置表单共用
+
+export type FieldType = "number" | "toggle" | "enum" | "color" | "text" | "vector2" | "tile"
+
+export interface FieldSpec {
+  key: string
+  type: FieldType
+  default: unknown
+  options?: string[]
+  min?: number
+  max?: number
+  step?: number
+}
+
+// 6 位或带透明度的 8 位十六进制颜色，不带 #
+export const HEX_COLOR_PATTERN = /^[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/
+
+export const numberField = (key: string, value: number, extra: Partial<FieldSpec> = {}): FieldSpec => ({
+  key,
+  type: "number",
+  default: value,
+  ...extra,
+})
+export const toggleField = (key: string, value: boolean): FieldSpec => ({ key, type: "toggle", default: value })
+export const choiceField = (key: string, options: string[], value = options[0]): FieldSpec => ({
+  key,
+  type: "enum",
+  default: value,
+  options,
+})
+export const colorField = (key: string, value: string): FieldSpec => ({ key, type: "color", default: value })
+export const textField = (key: string, value = ""): FieldSpec => ({ key, type: "text", default: value })
+export const vector2Field = (key: string, value: [number | null, number | null]): FieldSpec => ({
+  key,
+  type: "vector2",
+  default: value,
+})
+export const tileField = (key: string, value: [number, string]): FieldSpec => ({ key, type: "tile", default: value })
+
+/**
+ * 对象的所有字段：已知字段按定义顺序排列，其余字段根据当前值推断类型
+ * 这样导入的关卡里未定义的字段也能被查看和编辑
+ */
+export function getFields(target: Record<string, unknown>, known: FieldSpec[], ignore: string[] = []): FieldSpec[] {
+  const fields = [...known]
+  for (const key of Object.keys(target)) {
+    if (ignore.includes(key) || known.some((field) => field.key === key)) continue
+    fields.push({ key, type: inferFieldType(target[key]), default: target[key] })
+  }
+  return fields
+}
+
+function inferFieldType(value: unknown): FieldType {
+  if (typeof value === "number") return "number"
+  if (typeof value === "boolean" || value === "Enabled" || value === "Disabled") return "toggle"
+  if (Array.isArray(value) && value.length === 2) {
+    return typeof value[1] === "string" ? "tile" : "vector2"
+  }
+  return "text"
+}
+
+// ADOFAI 的开关既可能是布尔值也可能是 "Enabled"/"Disabled"
+export function isToggleOn(value: unknown): boolean {
+  return value === true || value === "Enabled"
+}
+
+// 写回开关时沿用原来的存储形式
+export function toToggleValue(previous: unknown, on: boolean): boolean | string {
+  if (typeof previous === "string") return on ? "Enabled" : "Disabled"
+  return on
+}
@@ -0,0 +1,130 @@
+// 编辑历史：所有对关卡的修改都以命令的形式执行，支持撤销/重做与分组
+
+export interface EditCommand {
+  apply(): void
+  revert(): void
+}
+
+// 最多保留的撤销步数
+const HISTORY_LIMIT = 200
+
+/**
+ * 命令栈
+ * 在 beginGroup/endGroup 之间执行的命令合并为一步，撤销时按相反顺序回退
+ */
+export class EditHistory {
+  private undoStack: EditCommand[][] = []
+  private redoStack: EditCommand[][] = []
+  private group: EditCommand[] | null = null
+  private groupDepth = 0
+
+  constructor(private onChange?: () => void) {}
+
+  public execute(command: EditCommand): void {
+    command.apply()
+    if (this.group) {
+      this.group.push(command)
+      return
+    }
+    this.push([command])
+  }
+
+  // 分组可以嵌套，只有最外层 endGroup 时才提交
+  public beginGroup(): void {
+    if (this.groupDepth === 0) {
+      this.group = []
+    }
+    this.groupDepth++
+  }
+
+  public endGroup(): void {
+    if (this.groupDepth === 0) return
+    this.groupDepth--
+    if (this.groupDepth > 0) return
+
+    const group = this.group
+    this.group = null
+    if (group && group.length > 0) {
+      this.push(group)
+    }
+  }
+
+  // 在同一个撤销步骤中执行 fn 内的所有命令
+  public transact(fn: () => void): void {
+    this.beginGroup()
+    try {
+      fn()
+    } finally {
+      this.endGroup()
+    }
+  }
+
+  public undo(): boolean {
+    const step = this.undoStack.pop()
+    if (!step) return false
+    for (let i = step.length - 1; i >= 0; i--) {
+      step[i].revert()
+    }
+    this.redoStack.push(step)
+    this.onChange?.()
+    return true
+  }
+
+  public redo(): boolean {
+    const step = this.redoStack.pop()
+    if (!step) return false
+    step.forEach((command) => command.apply())
+    this.undoStack.push(step)
+    this.onChange?.()
+    return true
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  public clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+    this.onChange?.()
+  }
+
+  private push(step: EditCommand[]): void {
+    this.undoStack.push(step)
+    if (this.undoStack.length > HISTORY_LIMIT) {
+      this.undoStack.shift()
+    }
+    this.redoStack = []
+    this.onChange?.()
+  }
+}
+
+/**
+ * 修改对象属性的命令（设置项、事件参数等）
+ * value 为 undefined 时删除该属性；onChange 在执行和撤销后调用
+ */
+export function createPropertyCommand<T extends object, K extends keyof T>(
+  target: T,
+  key: K,
+  value: T[K] | undefined,
+  onChange?: () => void,
+): EditCommand {
+  const hadKey = key in target
+  const previous = target[key]
+  const assign = (exists: boolean, next: T[K] | undefined): void => {
+    if (exists) {
+      target[key] = next as T[K]
+    } else {
+      delete target[key]
+    }
+    onChange?.()
+  }
+  return {
+    apply: () => assign(value !== undefined, value),
+    revert: () => assign(hadKey, previous),
+  }
+}
@@ -0,0 +1,86 @@
+import type * as ADOFAI from "adofai"
+import { applyHoldLayout } from "../Player/hold"
+
+// 关卡编辑：增删砖块，并保持 angleData、事件楼层与坐标同步
+
+export type Tile = ADOFAI.Level["tiles"][number]
+export type Action = Tile["actions"][number]
+
+// 创建一个没有事件的砖块
+export function createTile(direction: number): Tile {
+  return {
+    direction,
+    angle: 0,
+    actions: [],
+    addDecorations: [],
+    _lastdir: 0,
+    twirl: 0,
+    extraProps: {},
+  }
+}
+
+/**
+ * 在 index 处插入砖块（原 index 及之后的砖块后移）
+ */
+export function insertTiles(level: ADOFAI.Level, index: number, tiles: Tile[]): void {
+  level.tiles.splice(index, 0, ...tiles)
+  syncTiles(level, index)
+}
+
+/**
+ * 从 index 开始删除 count 个砖块，返回被删除的砖块
+ * 第 0 块是起点，不能删除
+ */
+export function removeTiles(level: ADOFAI.Level, index: number, count = 1): Tile[] {
+  if (index <= 0 || count <= 0) return []
+  const removed = level.tiles.splice(index, count)
+  syncTiles(level, index)
+  return removed
+}
+
+// 在砖块的事件列表中插入事件
+export function insertAction(level: ADOFAI.Level, tileIndex: number, actionIndex: number, action: Action): void {
+  level.tiles[tileIndex].actions.splice(actionIndex, 0, action)
+  syncTiles(level, tileIndex)
+}
+
+// 删除砖块上的一个事件，返回被删除的事件
+export function removeAction(level: ADOFAI.Level, tileIndex: number, actionIndex: number): Action | undefined {
+  const [removed] = level.tiles[tileIndex].actions.splice(actionIndex, 1)
+  syncTiles(level, tileIndex)
+  return removed
+}
+
+// 调整砖块上事件的顺序
+export function moveAction(level: ADOFAI.Level, tileIndex: number, from: number, to: number): void {
+  const actions = level.tiles[tileIndex].actions
+  if (to < 0 || to >= actions.length) return
+  const [action] = actions.splice(from, 1)
+  actions.splice(to, 0, action)
+  syncTiles(level, tileIndex)
+}
+
+/**
+ * 修改后重新生成 angleData 与带楼层的事件列表，
+ * 从 from 开始更新 _lastdir 与 Twirl 计数，再重新计算坐标
+ */
+export function syncTiles(level: ADOFAI.Level, from: number): void {
+  const tiles = level.tiles
+  level.angleData = tiles.map((tile) => tile.direction ?? 0)
+  level.actions = []
+  tiles.forEach((tile, floor) => {
+    for (const action of tile.actions || []) {
+      level.actions.push({ floor, ...action })
+    }
+  })
+
+  let twirl = tiles[from - 1]?.twirl ?? 0
+  for (let i = Math.max(from, 0); i < tiles.length; i++) {
+    twirl += (tiles[i].actions || []).filter((action) => action.eventType === "Twirl").length
+    tiles[i].twirl = twirl
+    tiles[i]._lastdir = tiles[i - 1]?.direction ?? 0
+  }
+
+  level.calculateTileCoordinates()
+  applyHoldLayout(level)
+}
@@ -0,0 +1,151 @@
+import { EASE_NAMES, HITSOUND_NAMES, TRACK_COLOR_TYPES, TRACK_STYLES } from "./action_schema"
+import {
+  choiceField as choice,
+  colorField as color,
+  getFields,
+  numberField as number,
+  textField as text,
+  toggleField as toggle,
+  vector2Field as vector2,
+  type FieldSpec,
+} from "./fields"
+
+// 关卡设置（settings）的字段定义，按设置页的方式分组
+
+export interface SettingsGroup {
+  id: string
+  fields: FieldSpec[]
+}
+
+export const SETTINGS_GROUPS: SettingsGroup[] = [
+  {
+    id: "song",
+    fields: [
+      text("songFilename"),
+      number("bpm", 100, { min: 0.001 }),
+      number("offset", 0, { step: 1 }),
+      number("volume", 100, { min: 0, max: 100, step: 1 }),
+      number("pitch", 100, { min: 1, max: 1000, step: 1 }),
+      choice("hitsound", HITSOUND_NAMES, "Kick"),
+      number("hitsoundVolume", 100, { min: 0, max: 100, step: 1 }),
+      number("countdownTicks", 4, { min: 0, step: 1 }),
+      toggle("separateCountdownTime", true),
+    ],
+  },
+  {
+    id: "level",
+    fields: [
+      text("artist"),
+      choice("specialArtistType", ["None", "AuthorIsArtist", "PublicLicense"]),
+      text("artistPermission"),
+      text("song"),
+      text("author"),
+      number("difficulty", 1, { min: 1, max: 10, step: 1 }),
+      toggle("seizureWarning", false),
+      text("levelDesc"),
+      text("levelTags"),
+      text("artistLinks"),
+      text("previewImage"),
+      text("previewIcon"),
+      color("previewIconColor", "003f52"),
+      number("previewSongStart", 0, { min: 0 }),
+      number("previewSongDuration", 10, { min: 0 }),
+      number("speedTrialAim", 0, { min: 0 }),
+    ],
+  },
+  {
+    id: "track",
+    fields: [
+      choice("tileShape", ["Long", "Short"]),
+      choice("trackColorType", TRACK_COLOR_TYPES),
+      color("trackColor", "debb7b"),
+      color("secondaryTrackColor", "ffffff"),
+      number("trackColorAnimDuration", 2, { min: 0 }),
+      choice("trackColorPulse", ["None", "Forward", "Backward"]),
+      number("trackPulseLength", 10, { min: 1, step: 1 }),
+      choice("trackStyle", TRACK_STYLES),
+      text("trackTexture"),
+      number("trackTextureScale", 1, { min: 0 }),
+      number("trackGlowIntensity", 100, { min: 0 }),
+      choice("trackAnimation", ["None", "Assemble", "Assemble_Far", "Extend", "Grow", "Grow_Spin", "Fade", "Drop", "Rise"]),
+      number("beatsAhead", 3, { min: 0 }),
+      choice("trackDisappearAnimation", ["None", "Scatter", "Scatter_Far", "Retract", "Shrink", "Shrink_Spin", "Fade"]),
+      number("beatsBehind", 4, { min: 0 }),
+      toggle("floorIconOutlines", false),
+      toggle("stickToFloors", true),
+    ],
+  },
+  {
+    id: "background",
+    fields: [
+      color("backgroundColor", "000000"),
+      toggle("showDefaultBGIfNoImage", true),
+      toggle("showDefaultBGTile", true),
+      color("defaultBGTileColor", "101121"),
+      choice("defaultBGShapeType", ["Default", "SingleColor", "Disabled"]),
+      color("defaultBGShapeColor", "ffffff"),
+      text("bgImage"),
+      color("bgImageColor", "ffffff"),
+      vector2("parallax", [100, 100]),
+      choice("bgDisplayMode", ["FitToScreen", "Unscaled", "Tiled"]),
+      toggle("imageSmoothing", true),
+      toggle("lockRot", false),
+      toggle("loopBG", false),
+      number("scalingRatio", 100, { min: 0 }),
+      text("bgVideo"),
+      toggle("loopVideo", false),
+      number("vidOffset", 0),
+    ],
+  },
+  {
+    id: "camera",
+    fields: [
+      choice("relativeTo", ["Player", "Tile", "Global", "LastPosition", "LastPositionNoRotation"]),
+      vector2("position", [0, 0]),
+      number("rotation", 0),
+      number("zoom", 100, { min: 0 }),
+      toggle("pulseOnFloor", true),
+      toggle("startCamLowVFX", false),
+    ],
+  },
+  {
+    id: "planet",
+    fields: [
+      choice("planetEase", EASE_NAMES),
+      number("planetEaseParts", 1, { min: 1, step: 1 }),
+      choice("planetEasePartBehavior", ["Mirror", "Repeat"]),
+    ],
+  },
+  {
+    id: "text",
+    fields: [
+      color("defaultTextColor", "ffffff"),
+      color("defaultTextShadowColor", "00000050"),
+      text("congratsText"),
+      text("perfectText"),
+    ],
+  },
+  {
+    id: "legacy",
+    fields: [
+      text("customClass"),
+      toggle("legacyFlash", false),
+      toggle("legacyCamRelativeTo", false),
+      toggle("legacySpriteTiles", false),
+      toggle("legacyTween", false),
+      toggle("disableV15Features", false),
+    ],
+  },
+]
+
+// 不在表单中编辑的字段（版本号由文件格式决定，必需模组是列表）
+const READONLY_SETTINGS = ["version", "requiredMods"]
+
+/**
+ * 关卡设置的分组，定义之外的字段放入 other 分组
+ */
+export function getSettingsGroups(settings: Record<string, unknown>): SettingsGroup[] {
+  const known = SETTINGS_GROUPS.reduce<FieldSpec[]>((fields, group) => fields.concat(group.fields), [])
+  const other = getFields(settings, known, READONLY_SETTINGS).slice(known.length)
+  return other.length > 0 ? [...SETTINGS_GROUPS, { id: "other", fields: other }] : SETTINGS_GROUPS
+}
@@ -0,0 +1,331 @@
+import * as THREE from "three"
+import type * as ADOFAI from "adofai"
+import { IMAGE_PIXELS_PER_TILE } from "./decorations"
+import { parseColor } from "@/lib/Player/track_color"
+import type { EventTween } from "@/lib/Player/tween"
+
+/**
+ * 背景层：settings 中的背景颜色、背景图片与默认背景砖块
+ * 播放时 CustomBackground 事件在开始时刻立即替换背景，未给出的字段保持不变
+ */
+
+// 背景位于所有装饰之后、摄像机远平面之内
+const BACKGROUND_Z = -950
+const DEFAULT_TILE_Z = -960
+
+// 默认背景砖块的边长（格）与视差
+const DEFAULT_TILE_SIZE = 2
+const DEFAULT_TILE_PARALLAX = 50
+// 默认背景砖块纹理的像素尺寸
+const DEFAULT_TILE_PIXELS = 64
+
+type DisplayMode = "FitToScreen" | "Unscaled" | "Tiled"
+
+interface BackgroundState {
+  color: string
+  image: string
+  imageColor: string
+  // 视差：0 为固定在场景中，100 为随摄像机移动
+  parallax: [number, number]
+  displayMode: DisplayMode
+  // 背景不随摄像机旋转
+  lockRot: boolean
+  loop: boolean
+  // Unscaled 模式下图片的缩放（百分比）
+  scale: number
+  showDefaultTile: boolean
+  defaultTileColor: string
+}
+
+// 摄像机的位置、可视范围（格）与旋转（度）
+interface BackgroundView {
+  x: number
+  y: number
+  width: number
+  height: number
+  rotation: number
+}
+
+const DISPLAY_MODES: DisplayMode[] = ["FitToScreen", "Unscaled", "Tiled"]
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const number = Number(value)
+  return value !== null && value !== undefined && Number.isFinite(number) ? number : fallback
+}
+
+const toVector = (value: unknown, fallback: [number, number]): [number, number] =>
+  Array.isArray(value) ? [toNumber(value[0], fallback[0]), toNumber(value[1], fallback[1])] : fallback
+
+const getBaseName = (path: string): string => path.split(/[\\/]/).pop()?.toLowerCase() || ""
+
+// 开关字段可能是布尔值或 Enabled/Disabled
+const toToggle = (value: unknown, fallback: boolean): boolean =>
+  value === true || value === "Enabled" ? true : value === false || value === "Disabled" ? false : fallback
+
+// 字段缺省时沿用 fallback
+const pick = <T>(value: unknown, fallback: T): T => (value === null || value === undefined ? fallback : (value as T))
+
+export class BackgroundLayer {
+  private imageMesh: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>
+  private tileMesh: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>
+  // 按小写文件名索引的图片纹理
+  private textures: Map<string, THREE.Texture> = new Map()
+  private initial: BackgroundState
+  private state: BackgroundState
+  private view: BackgroundView = { x: 0, y: 0, width: 1, height: 1, rotation: 0 }
+
+  constructor(private scene: THREE.Scene) {
+    this.initial = this.readSettings({})
+    this.state = { ...this.initial }
+
+    this.imageMesh = new THREE.Mesh(
+      new THREE.PlaneGeometry(1, 1),
+      new THREE.MeshBasicMaterial({ transparent: true, depthWrite: false }),
+    )
+    this.imageMesh.position.z = BACKGROUND_Z
+    this.imageMesh.visible = false
+
+    const tileTexture = this.createDefaultTileTexture()
+    this.tileMesh = new THREE.Mesh(
+      new THREE.PlaneGeometry(1, 1),
+      new THREE.MeshBasicMaterial({ map: tileTexture, transparent: true, depthWrite: false }),
+    )
+    this.tileMesh.position.z = DEFAULT_TILE_Z
+
+    scene.add(this.imageMesh, this.tileMesh)
+  }
+
+  // 按关卡设置重置背景
+  public build(level: ADOFAI.Level): void {
+    this.initial = this.readSettings(level?.settings || {})
+    this.reset()
+  }
+
+  // 恢复关卡设置中的背景，撤销 CustomBackground 的效果
+  public reset(): void {
+    this.state = { ...this.initial }
+    this.update()
+  }
+
+  /**
+   * CustomBackground：在 start 时刻替换背景
+   * 以补间的形式加入调度器，seek 时与其他事件按相同的顺序重放
+   */
+  public createChangeTween(action: Record<string, any>, start: number): EventTween {
+    return {
+      start,
+      duration: 0,
+      ease: "Linear",
+      begin: () => {
+        const { state } = this
+        this.state = {
+          ...state,
+          color: pick(action.color, state.color),
+          image: pick(action.bgImage, state.image),
+          imageColor: pick(action.imageColor, state.imageColor),
+          parallax: toVector(action.parallax, state.parallax),
+          displayMode: DISPLAY_MODES.includes(action.bgDisplayMode) ? action.bgDisplayMode : state.displayMode,
+          lockRot: toToggle(action.lockRot, state.lockRot),
+          loop: toToggle(action.loopBG, state.loop),
+          scale: toNumber(action.unscaledSize, state.scale),
+        }
+        this.update()
+      },
+      step: () => {},
+    }
+  }
+
+  // 关卡设置与 CustomBackground 事件引用的全部图片文件名
+  public getImageNames(level: ADOFAI.Level): string[] {
+    const names = new Set<string>()
+    const add = (name: unknown): void => {
+      if (typeof name === "string" && name) names.add(name)
+    }
+    add(level?.settings?.bgImage)
+    ;(level?.tiles || []).forEach((tile) => {
+      for (const action of tile.actions || []) {
+        if (action.eventType === "CustomBackground") add(action.bgImage)
+      }
+    })
+    return Array.from(names)
+  }
+
+  // 载入一张背景图片，图片无法解码时抛出错误
+  public async setImage(name: string, file: Blob): Promise<void> {
+    const url = URL.createObjectURL(file)
+    try {
+      const texture = await new THREE.TextureLoader().loadAsync(url)
+      texture.colorSpace = THREE.SRGBColorSpace
+      this.textures.get(getBaseName(name))?.dispose()
+      this.textures.set(getBaseName(name), texture)
+      this.update()
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }
+
+  // 摄像机移动后重新铺满可视范围
+  public setView(x: number, y: number, width: number, height: number, rotation: number): void {
+    this.view = { x, y, width, height, rotation }
+    this.layout()
+  }
+
+  public dispose(): void {
+    this.scene.background = null
+    ;[this.imageMesh, this.tileMesh].forEach((mesh) => {
+      mesh.removeFromParent()
+      mesh.geometry.dispose()
+      mesh.material.map?.dispose()
+      mesh.material.dispose()
+    })
+    this.textures.forEach((texture) => texture.dispose())
+    this.textures.clear()
+  }
+
+  private readSettings(settings: Record<string, any>): BackgroundState {
+    const mode = settings.bgDisplayMode
+    return {
+      color: pick(settings.backgroundColor, "000000"),
+      image: pick(settings.bgImage, ""),
+      imageColor: pick(settings.bgImageColor, "ffffff"),
+      parallax: toVector(settings.parallax, [100, 100]),
+      displayMode: DISPLAY_MODES.includes(mode) ? mode : "FitToScreen",
+      lockRot: toToggle(settings.lockRot, false),
+      loop: toToggle(settings.loopBG, false),
+      scale: toNumber(settings.scalingRatio, 100),
+      // 没有背景图片时才显示默认背景
+      showDefaultTile: toToggle(settings.showDefaultBGTile, true) && toToggle(settings.showDefaultBGIfNoImage, true),
+      defaultTileColor: pick(settings.defaultBGTileColor, "101121"),
+    }
+  }
+
+  // 状态改变后更新颜色与纹理
+  private update(): void {
+    const { state } = this
+    this.scene.background = new THREE.Color(parseColor(state.color, "000000").color)
+
+    const texture = this.textures.get(getBaseName(state.image))
+    const material = this.imageMesh.material
+    if (material.map?.source !== texture?.source) {
+      material.map?.dispose()
+      material.map = texture ? texture.clone() : null
+      material.needsUpdate = true
+    }
+    const { color, opacity } = parseColor(state.imageColor, "ffffff")
+    material.color.set(color)
+    material.opacity = opacity
+    this.imageMesh.visible = !!texture
+
+    this.tileMesh.material.color.set(parseColor(state.defaultTileColor, "101121").color)
+    this.tileMesh.visible = state.showDefaultTile && !texture
+    this.layout()
+  }
+
+  // 按摄像机位置摆放背景，重复显示时用一块覆盖整个视野的平面并移动纹理
+  private layout(): void {
+    const { state, view } = this
+    // 覆盖旋转后视野的正方形边长
+    const cover = Math.hypot(view.width, view.height) + 1
+    const rotation = state.lockRot ? (view.rotation * Math.PI) / 180 : 0
+
+    if (this.tileMesh.visible) {
+      const anchorX = (view.x * DEFAULT_TILE_PARALLAX) / 100
+      const anchorY = (view.y * DEFAULT_TILE_PARALLAX) / 100
+      this.layoutRepeat(this.tileMesh, cover, DEFAULT_TILE_SIZE, DEFAULT_TILE_SIZE, anchorX, anchorY, 0)
+    }
+
+    const map = this.imageMesh.material.map
+    if (!this.imageMesh.visible || !map) return
+    const image = map.image as { width: number; height: number }
+    const anchorX = (view.x * state.parallax[0]) / 100
+    const anchorY = (view.y * state.parallax[1]) / 100
+
+    let width = (image.width / IMAGE_PIXELS_PER_TILE) * (state.scale / 100)
+    let height = (image.height / IMAGE_PIXELS_PER_TILE) * (state.scale / 100)
+    if (state.displayMode === "FitToScreen") {
+      // 保持宽高比，铺满视野
+      const fit = Math.max(view.width / image.width, view.height / image.height)
+      width = image.width * fit
+      height = image.height * fit
+    }
+
+    if (state.displayMode === "Tiled" || state.loop) {
+      this.layoutRepeat(this.imageMesh, cover, width, height, anchorX, anchorY, rotation)
+      return
+    }
+
+    map.wrapS = THREE.ClampToEdgeWrapping
+    map.wrapT = THREE.ClampToEdgeWrapping
+    map.repeat.set(1, 1)
+    map.offset.set(0, 0)
+    map.needsUpdate = true
+    this.imageMesh.scale.set(width, height, 1)
+    this.imageMesh.rotation.z = rotation
+    this.imageMesh.position.x = anchorX
+    this.imageMesh.position.y = anchorY
+  }
+
+  /**
+   * 平面以摄像机为中心、边长为 size，纹理每 cellWidth × cellHeight 重复一次
+   * 某一次重复的图片中心位于 (anchorX, anchorY)
+   */
+  private layoutRepeat(
+    mesh: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>,
+    size: number,
+    cellWidth: number,
+    cellHeight: number,
+    anchorX: number,
+    anchorY: number,
+    rotation: number,
+  ): void {
+    const map = mesh.material.map
+    if (!map || cellWidth <= 0 || cellHeight <= 0) return
+    const { view } = this
+
+    // 锁定旋转时在摄像机坐标系内计算纹理偏移
+    const cos = Math.cos(-rotation)
+    const sin = Math.sin(-rotation)
+    const dx = anchorX - view.x
+    const dy = anchorY - view.y
+    const localX = dx * cos - dy * sin
+    const localY = dx * sin + dy * cos
+
+    if (map.wrapS !== THREE.RepeatWrapping || map.wrapT !== THREE.RepeatWrapping) {
+      map.wrapS = THREE.RepeatWrapping
+      map.wrapT = THREE.RepeatWrapping
+      map.needsUpdate = true
+    }
+    map.repeat.set(size / cellWidth, size / cellHeight)
+    map.offset.set((-size / 2 - localX) / cellWidth + 0.5, (-size / 2 - localY) / cellHeight + 0.5)
+
+    mesh.scale.set(size, size, 1)
+    mesh.rotation.z = rotation
+    mesh.position.x = view.x
+    mesh.position.y = view.y
+  }
+
+  // 默认背景砖块：透明底上的圆角方块，颜色由材质决定
+  private createDefaultTileTexture(): THREE.Texture {
+    const canvas = document.createElement("canvas")
+    canvas.width = DEFAULT_TILE_PIXELS
+    canvas.height = DEFAULT_TILE_PIXELS
+    const context = canvas.getContext("2d")
+    if (context) {
+      const inset = DEFAULT_TILE_PIXELS / 16
+      const size = DEFAULT_TILE_PIXELS - inset * 2
+      const radius = DEFAULT_TILE_PIXELS / 8
+      context.fillStyle = "#ffffff"
+      context.beginPath()
+      context.moveTo(inset + radius, inset)
+      context.arcTo(inset + size, inset, inset + size, inset + size, radius)
+      context.arcTo(inset + size, inset + size, inset, inset + size, radius)
+      context.arcTo(inset, inset + size, inset, inset, radius)
+      context.arcTo(inset, inset, inset + size, inset, radius)
+      context.closePath()
+      context.fill()
+    }
+    const texture = new THREE.CanvasTexture(canvas)
+    texture.colorSpace = THREE.SRGBColorSpace
+    return texture
+  }
+}
@@ -0,0 +1,78 @@
+import createTrackMesh, { type TrackMeshStyle } from "./mesh_reserve"
+
+// 分块几何体的生成：与 THREE 场景无关，既可在主线程也可在 Worker 中运行
+
+// 生成一个砖块网格所需的全部输入
+export interface TileMeshInput {
+  // 进入与离开砖块的方向（度）
+  startAngle: number
+  endAngle: number
+  isMidspin: boolean
+  style?: TrackMeshStyle
+  // 长按砖块的长条多出的长度（格）
+  holdLength?: number
+  x: number
+  y: number
+  z: number
+}
+
+/**
+ * 合并后的分块几何体，全部为类型化数组，可以在线程间转移
+ * triangleStarts/vertexStarts 为每个砖块的起始三角形与起始顶点，末尾多一项表示总数
+ */
+export interface ChunkGeometry {
+  positions: Float32Array
+  // 顶点的明暗系数（RGB），与砖块颜色相乘
+  shades: Float32Array
+  indices: Uint32Array
+  triangleStarts: Uint32Array
+  vertexStarts: Uint32Array
+}
+
+export function buildChunkGeometry(tiles: TileMeshInput[]): ChunkGeometry {
+  const positions: number[] = []
+  const shades: number[] = []
+  const indices: number[] = []
+  const triangleStarts: number[] = []
+  const vertexStarts: number[] = []
+
+  tiles.forEach((tile) => {
+    triangleStarts.push(indices.length / 3)
+    vertexStarts.push(positions.length / 3)
+
+    const meshData = createTrackMesh(tile.startAngle, tile.endAngle, tile.isMidspin, tile.style, tile.holdLength)
+    if (!meshData || !meshData.faces) return
+
+    const base = positions.length / 3
+    for (let v = 0; v < meshData.vertices.length; v += 3) {
+      positions.push(meshData.vertices[v] + tile.x, meshData.vertices[v + 1] + tile.y, meshData.vertices[v + 2] + tile.z)
+    }
+    for (let c = 0; c < meshData.colors.length; c++) {
+      shades.push(meshData.colors[c])
+    }
+    for (let f = 0; f < meshData.faces.length; f++) {
+      indices.push(meshData.faces[f] + base)
+    }
+  })
+  triangleStarts.push(indices.length / 3)
+  vertexStarts.push(positions.length / 3)
+
+  return {
+    positions: new Float32Array(positions),
+    shades: new Float32Array(shades),
+    indices: new Uint32Array(indices),
+    triangleStarts: new Uint32Array(triangleStarts),
+    vertexStarts: new Uint32Array(vertexStarts),
+  }
+}
+
+// 几何体占用的缓冲区，postMessage 时转移而不是复制
+export function getChunkGeometryBuffers(geometry: ChunkGeometry): ArrayBuffer[] {
+  return [
+    geometry.positions.buffer as ArrayBuffer,
+    geometry.shades.buffer as ArrayBuffer,
+    geometry.indices.buffer as ArrayBuffer,
+    geometry.triangleStarts.buffer as ArrayBuffer,
+    geometry.vertexStarts.buffer as ArrayBuffer,
+  ]
+}
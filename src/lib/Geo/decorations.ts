@@ -0,0 +1,459 @@
+import * as THREE from "three"
+import type * as ADOFAI from "adofai"
+import createTrackMesh, { DEFAULT_TRACK_MESH_STYLE, type TrackStyle } from "./mesh_reserve"
+import { parseColor } from "@/lib/Player/track_color"
+import type { EventTween } from "@/lib/Player/tween"
+
+/**
+ * 装饰层：AddDecoration（图片）、AddText（文字）与 AddObject（砖块或星球）
+ * 位置相对于所在砖块或摄像机；depth 小于 0 的装饰在轨道上方，其余在轨道下方
+ * 图片由使用方按文件名提供，缺少图片的装饰不显示
+ */
+
+// 图片每多少像素对应一格砖块（scale 为 100 时）
+export const IMAGE_PIXELS_PER_TILE = 150
+
+// 文字纹理的字号与每格砖块对应的像素
+const TEXT_FONT_SIZE = 64
+const TEXT_PIXELS_PER_TILE = 128
+
+// 轨道上方装饰的深度范围，位于砖块（z <= 0）与星球（z = 5）之间
+const FRONT_Z = 1
+const FRONT_Z_RANGE = 2
+// 轨道下方的装饰离最后一块砖的距离
+const BACK_Z_GAP = 1
+// 相邻 depth 的深度差
+const DEPTH_Z_STEP = 0.001
+// 摄像机远平面以内的最远距离
+const MIN_Z = -900
+
+// 同一 depth 的装饰按出现顺序错开，避免深度冲突
+const ORDER_Z_STEP = 0.000001
+
+type DecorationKind = "image" | "text" | "object"
+
+// MoveDecorations 可以改变的状态：位置与旋转为相对原始值的偏移，缩放与不透明度为百分比
+export interface DecorationTransform {
+  offsetX: number
+  offsetY: number
+  rotationOffset: number
+  scaleX: number
+  scaleY: number
+  opacity: number
+  visible: boolean
+}
+
+interface DecorationEntry {
+  kind: DecorationKind
+  action: Record<string, any>
+  tags: string[]
+  object: THREE.Object3D
+  // 跟随摄像机的装饰，x/y 为相对摄像机的偏移
+  followsCamera: boolean
+  x: number
+  y: number
+  rotation: number
+  // 视差：0 为固定在场景中，100 为随摄像机移动
+  parallax: [number, number]
+  initial: DecorationTransform
+  transform: DecorationTransform
+  // 图片装饰在图片载入后才显示
+  loaded: boolean
+}
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const number = Number(value)
+  return Number.isFinite(number) ? number : fallback
+}
+
+const toVector = (value: unknown, fallback: [number, number]): [number, number] =>
+  Array.isArray(value) ? [toNumber(value[0], fallback[0]), toNumber(value[1], fallback[1])] : fallback
+
+const getBaseName = (path: string): string => path.split(/[\\/]/).pop()?.toLowerCase() || ""
+
+const isCameraAnchor = (relativeTo: unknown): boolean => relativeTo === "Camera" || relativeTo === "CameraAspect"
+
+export class DecorationLayer {
+  private group = new THREE.Group()
+  private entries: DecorationEntry[] = []
+  // 按小写文件名索引的图片纹理
+  private textures: Map<string, THREE.Texture> = new Map()
+  private cameraX = 0
+  private cameraY = 0
+
+  constructor(scene: THREE.Scene) {
+    scene.add(this.group)
+  }
+
+  /**
+   * 按关卡重建所有装饰
+   * getTilePosition 给出砖块中心，trackDepth 为最后一块砖的深度（轨道下方的装饰放在它之后）
+   */
+  public build(level: ADOFAI.Level, getTilePosition: (index: number) => [number, number], trackDepth: number): void {
+    this.clearEntries()
+
+    const settings: Record<string, any> = level?.settings || {}
+    const decorations: Record<string, any>[] = level?.__decorations ?? []
+    const tileCount = level?.tiles?.length || 0
+
+    decorations.forEach((action, order) => {
+      const object = this.createObject(action, settings)
+      if (!object) return
+
+      const kind: DecorationKind =
+        action.eventType === "AddText" ? "text" : action.eventType === "AddObject" ? "object" : "image"
+      const [offsetX, offsetY] = toVector(action.position, [0, 0])
+      const followsCamera = isCameraAnchor(action.relativeTo)
+      let x = offsetX
+      let y = offsetY
+      if (!followsCamera && action.relativeTo !== "Global") {
+        const floor = Math.min(Math.max(toNumber(action.floor, 0), 0), Math.max(tileCount - 1, 0))
+        const [tileX, tileY] = getTilePosition(floor)
+        x += tileX
+        y += tileY
+      }
+
+      // depth 越小越靠前
+      const depth = toNumber(action.depth, -1)
+      const z =
+        depth < 0
+          ? FRONT_Z + Math.min(-depth * DEPTH_Z_STEP, FRONT_Z_RANGE)
+          : Math.max(trackDepth - BACK_Z_GAP - depth * DEPTH_Z_STEP, MIN_Z)
+      object.position.z = z + order * ORDER_Z_STEP
+
+      const [scaleX, scaleY] = toVector(action.scale, [100, 100])
+      const initial: DecorationTransform = {
+        offsetX: 0,
+        offsetY: 0,
+        rotationOffset: 0,
+        scaleX,
+        scaleY,
+        opacity: toNumber(action.opacity ?? action.trackOpacity, 100),
+        visible: true,
+      }
+      const entry: DecorationEntry = {
+        kind,
+        action,
+        tags: String(action.tag ?? "").split(/\s+/).filter(Boolean),
+        object,
+        followsCamera,
+        x,
+        y,
+        rotation: toNumber(action.rotation, 0),
+        parallax: toVector(action.parallax, [0, 0]),
+        initial,
+        transform: { ...initial },
+        loaded: kind !== "image",
+      }
+      this.entries.push(entry)
+      this.group.add(object)
+      if (kind === "image") this.applyTexture(entry)
+      this.applyTransform(entry)
+    })
+
+    this.updatePositions()
+  }
+
+  // 带有 tag 的装饰的状态，修改后调用 applyTransforms 生效
+  public getTransforms(tag: string): DecorationTransform[] {
+    return this.entries.filter((entry) => entry.tags.includes(tag)).map((entry) => entry.transform)
+  }
+
+  public applyTransforms(): void {
+    this.entries.forEach((entry) => this.applyTransform(entry))
+    this.updatePositions()
+  }
+
+  /**
+   * MoveDecorations 的补间：开始时记录 tag 对应装饰的当前状态，缓动到事件给出的值
+   * 事件中为 null 或缺省的字段保持不变，visible 在开始时立即生效
+   */
+  public createMoveTween(action: Record<string, any>, start: number, duration: number): EventTween {
+    const tags = String(action.tag ?? "").split(/\s+/).filter(Boolean)
+    const field = (value: unknown, index: number): number | null => {
+      const item = Array.isArray(value) ? value[index] : index === 0 ? value : null
+      return item === null || item === undefined || !Number.isFinite(Number(item)) ? null : Number(item)
+    }
+    const targetOf = (from: DecorationTransform): DecorationTransform => ({
+      offsetX: field(action.positionOffset, 0) ?? from.offsetX,
+      offsetY: field(action.positionOffset, 1) ?? from.offsetY,
+      rotationOffset: field(action.rotationOffset, 0) ?? from.rotationOffset,
+      scaleX: field(action.scale, 0) ?? from.scaleX,
+      scaleY: field(action.scale, 1) ?? from.scaleY,
+      opacity: field(action.opacity, 0) ?? from.opacity,
+      visible: from.visible,
+    })
+
+    let moves: { transform: DecorationTransform; from: DecorationTransform; to: DecorationTransform }[] = []
+    return {
+      start,
+      duration,
+      ease: action.ease,
+      begin: () => {
+        moves = []
+        tags.forEach((tag) => {
+          this.getTransforms(tag).forEach((transform) => {
+            if (action.visible !== undefined) transform.visible = action.visible !== false && action.visible !== "Disabled"
+            moves.push({ transform, from: { ...transform }, to: targetOf(transform) })
+          })
+        })
+      },
+      step: (progress) => {
+        if (moves.length === 0) return
+        const lerp = (a: number, b: number): number => a + (b - a) * progress
+        moves.forEach(({ transform, from, to }) => {
+          transform.offsetX = lerp(from.offsetX, to.offsetX)
+          transform.offsetY = lerp(from.offsetY, to.offsetY)
+          transform.rotationOffset = lerp(from.rotationOffset, to.rotationOffset)
+          transform.scaleX = lerp(from.scaleX, to.scaleX)
+          transform.scaleY = lerp(from.scaleY, to.scaleY)
+          transform.opacity = lerp(from.opacity, to.opacity)
+        })
+        this.applyTransforms()
+      },
+    }
+  }
+
+  // 恢复所有装饰的原始状态
+  public resetTransforms(): void {
+    this.entries.forEach((entry) => {
+      entry.transform = { ...entry.initial }
+    })
+    this.applyTransforms()
+  }
+
+  // 关卡引用的全部图片文件名
+  public getImageNames(level: ADOFAI.Level): string[] {
+    const decorations: Record<string, any>[] = level?.__decorations ?? []
+    const names = new Set<string>()
+    decorations.forEach((action) => {
+      if (action.eventType === "AddDecoration" && typeof action.decorationImage === "string" && action.decorationImage) {
+        names.add(action.decorationImage)
+      }
+    })
+    return Array.from(names)
+  }
+
+  // 载入一张图片并应用到使用它的装饰，图片无法解码时抛出错误
+  public async setImage(name: string, file: Blob): Promise<void> {
+    const url = URL.createObjectURL(file)
+    try {
+      const texture = await new THREE.TextureLoader().loadAsync(url)
+      texture.colorSpace = THREE.SRGBColorSpace
+      this.textures.get(getBaseName(name))?.dispose()
+      this.textures.set(getBaseName(name), texture)
+      this.entries.forEach((entry) => {
+        if (entry.kind === "image" && getBaseName(String(entry.action.decorationImage || "")) === getBaseName(name)) {
+          this.applyTexture(entry)
+        }
+      })
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }
+
+  // 摄像机移动后更新跟随摄像机与有视差的装饰
+  public setCamera(x: number, y: number): void {
+    this.cameraX = x
+    this.cameraY = y
+    this.updatePositions()
+  }
+
+  public dispose(): void {
+    this.clearEntries()
+    this.textures.forEach((texture) => texture.dispose())
+    this.textures.clear()
+    this.group.removeFromParent()
+  }
+
+  private updatePositions(): void {
+    this.entries.forEach((entry) => {
+      const x = entry.x + entry.transform.offsetX
+      const y = entry.y + entry.transform.offsetY
+      if (entry.followsCamera) {
+        entry.object.position.x = this.cameraX + x
+        entry.object.position.y = this.cameraY + y
+        return
+      }
+      entry.object.position.x = x + (this.cameraX * entry.parallax[0]) / 100
+      entry.object.position.y = y + (this.cameraY * entry.parallax[1]) / 100
+    })
+  }
+
+  // 旋转、缩放、不透明度与可见性；材质的 userData.alpha 为颜色自带的不透明度
+  private applyTransform(entry: DecorationEntry): void {
+    const { transform } = entry
+    entry.object.rotation.z = (-(entry.rotation + transform.rotationOffset) * Math.PI) / 180
+    entry.object.scale.set(transform.scaleX / 100, transform.scaleY / 100, 1)
+    entry.object.visible = entry.loaded && transform.visible
+    entry.object.traverse((child) => {
+      const mesh = child as THREE.Mesh
+      if (!mesh.isMesh) return
+      const material = mesh.material as THREE.MeshBasicMaterial
+      material.opacity = (material.userData.alpha ?? 1) * Math.min(Math.max(transform.opacity / 100, 0), 1)
+    })
+  }
+
+  private createObject(action: Record<string, any>, settings: Record<string, any>): THREE.Object3D | null {
+    switch (action.eventType) {
+      case "AddDecoration":
+        return this.createImage(action)
+      case "AddText":
+        return this.createText(action, settings)
+      case "AddObject":
+        return this.createLevelObject(action)
+      default:
+        return null
+    }
+  }
+
+  // 图片装饰：纹理载入前不显示，pivotOffset 为旋转中心相对图片中心的偏移
+  private createImage(action: Record<string, any>): THREE.Object3D {
+    const { color, opacity } = parseColor(action.color, "ffffff")
+    const material = new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    })
+    material.userData.alpha = opacity
+    const mesh = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), material)
+    const [pivotX, pivotY] = toVector(action.pivotOffset, [0, 0])
+    mesh.position.set(-pivotX, -pivotY, 0)
+
+    const group = new THREE.Group()
+    group.add(mesh)
+    return group
+  }
+
+  private applyTexture(entry: DecorationEntry): void {
+    const texture = this.textures.get(getBaseName(String(entry.action.decorationImage || "")))
+    if (!texture) return
+    const mesh = entry.object.children[0] as THREE.Mesh
+    const material = mesh.material as THREE.MeshBasicMaterial
+
+    // tile 为图片在装饰内重复的次数，需要独立的纹理设置
+    const [repeatX, repeatY] = toVector(entry.action.tile, [1, 1])
+    material.map?.dispose()
+    const map = texture.clone()
+    if (repeatX !== 1 || repeatY !== 1) {
+      map.wrapS = THREE.RepeatWrapping
+      map.wrapT = THREE.RepeatWrapping
+      map.repeat.set(repeatX, repeatY)
+    }
+    if (entry.action.imageSmoothing === "Disabled") {
+      map.magFilter = THREE.NearestFilter
+      map.minFilter = THREE.NearestFilter
+    }
+    map.needsUpdate = true
+    material.map = map
+    material.needsUpdate = true
+
+    const image = texture.image as { width: number; height: number }
+    mesh.scale.set((image.width / IMAGE_PIXELS_PER_TILE) * repeatX, (image.height / IMAGE_PIXELS_PER_TILE) * repeatY, 1)
+    entry.loaded = true
+    this.applyTransform(entry)
+  }
+
+  // 文字装饰：绘制到画布纹理，颜色缺省时使用关卡的默认文字颜色与阴影颜色
+  private createText(action: Record<string, any>, settings: Record<string, any>): THREE.Object3D | null {
+    const text = String(action.decText ?? "")
+    if (!text) return null
+
+    const fill = parseColor(action.color ?? settings.defaultTextColor, "ffffff")
+    const shadow = parseColor(settings.defaultTextShadowColor, "00000050")
+    const lines = text.split(/\r?\n/)
+    const font = `${TEXT_FONT_SIZE}px sans-serif`
+    const padding = TEXT_FONT_SIZE / 4
+
+    const canvas = document.createElement("canvas")
+    const context = canvas.getContext("2d")
+    if (!context) return null
+    context.font = font
+    const width = Math.max(...lines.map((line) => context.measureText(line).width), 1)
+    canvas.width = Math.ceil(width + padding * 2)
+    canvas.height = Math.ceil(lines.length * TEXT_FONT_SIZE * 1.2 + padding * 2)
+
+    // 改变画布尺寸会重置绘图状态
+    context.font = font
+    context.textAlign = "center"
+    context.textBaseline = "middle"
+    const toCss = ({ color, opacity }: { color: number; opacity: number }): string =>
+      `rgba(${(color >> 16) & 0xff}, ${(color >> 8) & 0xff}, ${color & 0xff}, ${opacity})`
+    lines.forEach((line, index) => {
+      const y = padding + (index + 0.5) * TEXT_FONT_SIZE * 1.2
+      context.fillStyle = toCss(shadow)
+      context.fillText(line, canvas.width / 2 + TEXT_FONT_SIZE / 16, y + TEXT_FONT_SIZE / 16)
+      context.fillStyle = toCss(fill)
+      context.fillText(line, canvas.width / 2, y)
+    })
+
+    const texture = new THREE.CanvasTexture(canvas)
+    texture.colorSpace = THREE.SRGBColorSpace
+    const material = new THREE.MeshBasicMaterial({
+      map: texture,
+      transparent: true,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    })
+    const mesh = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), material)
+    mesh.scale.set(canvas.width / TEXT_PIXELS_PER_TILE, canvas.height / TEXT_PIXELS_PER_TILE, 1)
+    const [pivotX, pivotY] = toVector(action.pivotOffset, [0, 0])
+    mesh.position.set(-pivotX, -pivotY, 0)
+
+    const group = new THREE.Group()
+    group.add(mesh)
+    return group
+  }
+
+  // AddObject：Floor 为单独的一块砖，Planet 为一颗星球
+  private createLevelObject(action: Record<string, any>): THREE.Object3D | null {
+    const group = new THREE.Group()
+
+    if (action.objectType === "Planet") {
+      const fallback = action.planetColorType === "DefaultBlue" ? "0000ff" : "ff0000"
+      const { color, opacity } =
+        action.planetColorType === "Custom" ? parseColor(action.planetColor, fallback) : parseColor(fallback, fallback)
+      const material = new THREE.MeshBasicMaterial({ color, transparent: true })
+      material.userData.alpha = opacity
+      group.add(new THREE.Mesh(new THREE.CircleGeometry(0.25, 32), material))
+      return group
+    }
+
+    // trackAngle 为进入方向与离开方向的夹角，180 为直线
+    const style = { ...DEFAULT_TRACK_MESH_STYLE }
+    if (typeof action.trackStyle === "string") style.trackStyle = action.trackStyle as TrackStyle
+    const meshData = createTrackMesh(toNumber(action.trackAngle, 180), 0, action.trackType === "Midspin", style)
+    if (!meshData || !meshData.faces) return null
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute("position", new THREE.Float32BufferAttribute(meshData.vertices, 3))
+    geometry.setAttribute("color", new THREE.Float32BufferAttribute(meshData.colors, 3))
+    geometry.setIndex(meshData.faces)
+    const { color, opacity } = parseColor(action.trackColor, "debb7b")
+    const material = new THREE.MeshBasicMaterial({
+      color,
+      vertexColors: true,
+      transparent: true,
+      side: THREE.DoubleSide,
+    })
+    material.userData.alpha = opacity
+    group.add(new THREE.Mesh(geometry, material))
+    return group
+  }
+
+  private clearEntries(): void {
+    this.entries.forEach((entry) => {
+      entry.object.traverse((child) => {
+        const mesh = child as THREE.Mesh
+        if (!mesh.isMesh) return
+        mesh.geometry.dispose()
+        const material = mesh.material as THREE.MeshBasicMaterial
+        material.map?.dispose()
+        material.dispose()
+      })
+      this.group.remove(entry.object)
+    })
+    this.entries = []
+  }
+}
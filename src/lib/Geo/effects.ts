@@ -0,0 +1,421 @@
+import * as THREE from "three"
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js"
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js"
+import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass.js"
+import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass.js"
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js"
+import { parseColor } from "@/lib/Player/track_color"
+import type { EventTween } from "@/lib/Player/tween"
+
+/**
+ * 屏幕特效：Flash、Bloom、ShakeScreen 与 SetFilter
+ * 事件以补间的形式加入播放的调度器；没有特效生效或特效被关闭时直接渲染场景，不经过后期处理
+ */
+
+// 由 EffectPipeline.createTween 处理的事件
+export const EFFECT_EVENT_TYPES = ["Flash", "Bloom", "SetFilter", "ShakeScreen"]
+
+// 背景闪光位于背景之前、所有装饰之后
+const BACKGROUND_FLASH_Z = -940
+
+// Bloom 的模糊半径，强度 100 对应 strength 1
+const BLOOM_RADIUS = 0.4
+
+// ShakeScreen 强度 100 时的振幅（格）与频率 100 时每秒的抖动次数
+const SHAKE_AMPLITUDE = 0.3
+const SHAKE_FREQUENCY = 20
+
+// 滤镜对应的着色器参数，相近的滤镜共用同一种效果，未列出的滤镜暂不显示
+const FILTER_UNIFORMS: Record<string, FilterUniform> = {
+  Grayscale: "grayscale",
+  Sepia: "sepia",
+  Invert: "invert",
+  Pixelate: "pixelate",
+  Blur: "blur",
+  BlurFocus: "blur",
+  GaussianBlur: "blur",
+  MotionBlur: "blur",
+  Aberration: "aberration",
+  Grain: "grain",
+  Static: "grain",
+  Fisheye: "fisheye",
+  Waves: "waves",
+}
+
+type FilterUniform = "grayscale" | "sepia" | "invert" | "pixelate" | "blur" | "aberration" | "grain" | "fisheye" | "waves"
+
+const FILTER_NAMES = Array.from(new Set(Object.keys(FILTER_UNIFORMS).map((name) => FILTER_UNIFORMS[name])))
+
+// 每种滤镜的强度，0 为关闭
+const createFilters = (): Record<FilterUniform, number> =>
+  FILTER_NAMES.reduce((filters, name) => ({ ...filters, [name]: 0 }), {} as Record<FilterUniform, number>)
+
+// 所有滤镜合并为一个着色器，强度为 0 的滤镜不产生效果；前景闪光最后叠加
+const FILTER_SHADER = {
+  uniforms: {
+    tDiffuse: { value: null },
+    resolution: { value: new THREE.Vector2(1, 1) },
+    time: { value: 0 },
+    flash: { value: new THREE.Vector4(1, 1, 1, 0) },
+    ...FILTER_NAMES.reduce((uniforms, name) => ({ ...uniforms, [name]: { value: 0 } }), {}),
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform vec2 resolution;
+    uniform float time;
+    uniform vec4 flash;
+    uniform float grayscale;
+    uniform float sepia;
+    uniform float invert;
+    uniform float pixelate;
+    uniform float blur;
+    uniform float aberration;
+    uniform float grain;
+    uniform float fisheye;
+    uniform float waves;
+    varying vec2 vUv;
+
+    vec4 sampleScene(vec2 uv) {
+      if (blur <= 0.0) return texture2D(tDiffuse, uv);
+      vec2 step = blur * 4.0 / resolution;
+      vec4 sum = vec4(0.0);
+      for (int x = -1; x <= 1; x++) {
+        for (int y = -1; y <= 1; y++) {
+          sum += texture2D(tDiffuse, uv + vec2(float(x), float(y)) * step);
+        }
+      }
+      return sum / 9.0;
+    }
+
+    float random(vec2 p) {
+      return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+
+    void main() {
+      vec2 uv = vUv;
+      if (fisheye > 0.0) {
+        vec2 d = uv - 0.5;
+        uv = 0.5 + d * mix(1.0, 0.6 + 0.4 * length(d) / 0.7071, min(fisheye, 1.0));
+      }
+      if (waves > 0.0) {
+        uv.x += sin(uv.y * 20.0 + time * 4.0) * 0.01 * waves;
+      }
+      if (pixelate > 0.0) {
+        vec2 cell = (1.0 + pixelate * 15.0) / resolution;
+        uv = (floor(uv / cell) + 0.5) * cell;
+      }
+
+      vec4 color = sampleScene(uv);
+      if (aberration > 0.0) {
+        vec2 offset = vec2(aberration * 4.0 / resolution.x, 0.0);
+        color.r = sampleScene(uv + offset).r;
+        color.b = sampleScene(uv - offset).b;
+      }
+
+      float gray = dot(color.rgb, vec3(0.299, 0.587, 0.114));
+      color.rgb = mix(color.rgb, vec3(gray), min(grayscale, 1.0));
+      vec3 toned = vec3(
+        dot(color.rgb, vec3(0.393, 0.769, 0.189)),
+        dot(color.rgb, vec3(0.349, 0.686, 0.168)),
+        dot(color.rgb, vec3(0.272, 0.534, 0.131))
+      );
+      color.rgb = mix(color.rgb, toned, min(sepia, 1.0));
+      color.rgb = mix(color.rgb, 1.0 - color.rgb, min(invert, 1.0));
+      if (grain > 0.0) {
+        color.rgb += (random(vUv + fract(time)) - 0.5) * 0.2 * grain;
+      }
+
+      color.rgb = mix(color.rgb, flash.rgb, clamp(flash.a, 0.0, 1.0));
+      gl_FragColor = color;
+    }
+  `,
+}
+
+interface FlashState {
+  color: THREE.Color
+  opacity: number
+}
+
+interface BloomState {
+  enabled: boolean
+  threshold: number
+  intensity: number
+  color: THREE.Color
+}
+
+// 进行中的 ShakeScreen，amplitude 随 fadeOut 减弱
+interface Shake {
+  amplitude: number
+  frequency: number
+}
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const number = Number(value)
+  return value !== null && value !== undefined && Number.isFinite(number) ? number : fallback
+}
+
+// 开关字段可能是布尔值或 Enabled/Disabled
+const toToggle = (value: unknown, fallback: boolean): boolean =>
+  value === true || value === "Enabled" ? true : value === false || value === "Disabled" ? false : fallback
+
+const toColor = (value: unknown, fallback: string): { color: THREE.Color; opacity: number } => {
+  const { color, opacity } = parseColor(value, fallback)
+  return { color: new THREE.Color(color), opacity }
+}
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t
+
+export class EffectPipeline {
+  private composer: EffectComposer
+  private bloomPass: UnrealBloomPass
+  private filterPass: ShaderPass
+  private backgroundFlash: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>
+  private enabled = true
+  private size = new THREE.Vector2()
+
+  private foreground: FlashState = { color: new THREE.Color(1, 1, 1), opacity: 0 }
+  private background: FlashState = { color: new THREE.Color(1, 1, 1), opacity: 0 }
+  private bloom: BloomState = { enabled: false, threshold: 0.5, intensity: 1, color: new THREE.Color(1, 1, 1) }
+  private filters: Record<FilterUniform, number> = createFilters()
+  private shakes: Set<Shake> = new Set()
+
+  constructor(
+    private renderer: THREE.WebGLRenderer,
+    private scene: THREE.Scene,
+    private camera: THREE.OrthographicCamera,
+  ) {
+    renderer.getSize(this.size)
+    this.composer = new EffectComposer(renderer)
+    this.composer.addPass(new RenderPass(scene, camera))
+    this.bloomPass = new UnrealBloomPass(this.size.clone(), 1, BLOOM_RADIUS, 0.5)
+    this.composer.addPass(this.bloomPass)
+    this.filterPass = new ShaderPass(FILTER_SHADER)
+    this.composer.addPass(this.filterPass)
+    this.composer.addPass(new OutputPass())
+
+    this.backgroundFlash = new THREE.Mesh(
+      new THREE.PlaneGeometry(1, 1),
+      new THREE.MeshBasicMaterial({ transparent: true, depthWrite: false }),
+    )
+    this.backgroundFlash.position.z = BACKGROUND_FLASH_Z
+    scene.add(this.backgroundFlash)
+    this.reset()
+  }
+
+  // 关闭后不再显示任何特效，事件仍按时间更新状态，重新开启时立即恢复
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled
+  }
+
+  // 恢复无特效的初始状态
+  public reset(): void {
+    this.foreground = { color: new THREE.Color(1, 1, 1), opacity: 0 }
+    this.background = { color: new THREE.Color(1, 1, 1), opacity: 0 }
+    this.bloom = { enabled: false, threshold: 0.5, intensity: 1, color: new THREE.Color(1, 1, 1) }
+    this.filters = createFilters()
+    this.shakes.clear()
+  }
+
+  /**
+   * 屏幕特效事件的补间，不是特效事件时返回 null
+   * start 与 duration 为毫秒
+   */
+  public createTween(action: Record<string, any>, start: number, duration: number): EventTween | null {
+    switch (action.eventType) {
+      case "Flash":
+        return this.createFlashTween(action, start, duration)
+      case "Bloom":
+        return this.createBloomTween(action, start, duration)
+      case "SetFilter":
+        return this.createFilterTween(action, start, duration)
+      case "ShakeScreen":
+        return this.createShakeTween(action, start, duration)
+      default:
+        return null
+    }
+  }
+
+  // 渲染一帧，time（毫秒）决定抖动与滤镜动画，与帧率无关
+  public render(time: number): void {
+    const active = this.enabled && this.isActive()
+    this.backgroundFlash.visible = this.enabled && this.background.opacity > 0
+    if (this.backgroundFlash.visible) this.layoutBackgroundFlash()
+
+    // 抖动只在渲染时偏移摄像机，不影响其他模块读取的摄像机位置
+    const [shakeX, shakeY] = this.enabled ? this.getShakeOffset(time) : [0, 0]
+    this.camera.position.x += shakeX
+    this.camera.position.y += shakeY
+
+    if (active) {
+      this.syncSize()
+      this.bloomPass.enabled = this.bloom.enabled && this.bloom.intensity > 0
+      this.bloomPass.strength = this.bloom.intensity
+      this.bloomPass.threshold = this.bloom.threshold
+      this.bloomPass.bloomTintColors.forEach((tint) => tint.set(this.bloom.color.r, this.bloom.color.g, this.bloom.color.b))
+
+      const uniforms = this.filterPass.uniforms
+      FILTER_NAMES.forEach((name) => (uniforms[name].value = this.filters[name]))
+      uniforms.time.value = time / 1000
+      uniforms.resolution.value.copy(this.size)
+      const { color, opacity } = this.foreground
+      uniforms.flash.value.set(color.r, color.g, color.b, opacity)
+      this.composer.render()
+    } else {
+      this.renderer.render(this.scene, this.camera)
+    }
+
+    this.camera.position.x -= shakeX
+    this.camera.position.y -= shakeY
+  }
+
+  public dispose(): void {
+    this.composer.dispose()
+    this.bloomPass.dispose()
+    this.filterPass.material.dispose()
+    this.backgroundFlash.removeFromParent()
+    this.backgroundFlash.geometry.dispose()
+    this.backgroundFlash.material.dispose()
+  }
+
+  // 是否有需要后期处理的特效
+  private isActive(): boolean {
+    return (
+      this.foreground.opacity > 0 ||
+      (this.bloom.enabled && this.bloom.intensity > 0) ||
+      FILTER_NAMES.some((name) => this.filters[name] > 0)
+    )
+  }
+
+  // 渲染器尺寸改变后同步后期处理的缓冲区
+  private syncSize(): void {
+    const size = this.renderer.getSize(new THREE.Vector2())
+    if (size.equals(this.size)) return
+    this.size.copy(size)
+    this.composer.setPixelRatio(this.renderer.getPixelRatio())
+    this.composer.setSize(size.x, size.y)
+  }
+
+  // 背景闪光覆盖摄像机旋转后的整个视野
+  private layoutBackgroundFlash(): void {
+    const { camera } = this
+    const cover = Math.hypot(camera.right - camera.left, camera.top - camera.bottom) / camera.zoom + 1
+    this.backgroundFlash.position.x = camera.position.x
+    this.backgroundFlash.position.y = camera.position.y
+    this.backgroundFlash.scale.set(cover, cover, 1)
+    this.backgroundFlash.material.color.copy(this.background.color)
+    this.backgroundFlash.material.opacity = Math.min(this.background.opacity, 1)
+  }
+
+  // 多个抖动叠加，两个频率不同的正弦让轨迹不重复
+  private getShakeOffset(time: number): [number, number] {
+    let x = 0
+    let y = 0
+    const seconds = time / 1000
+    this.shakes.forEach(({ amplitude, frequency }) => {
+      const phase = seconds * frequency * 2 * Math.PI
+      x += amplitude * Math.sin(phase * 1.1)
+      y += amplitude * Math.cos(phase * 0.9)
+    })
+    return [x, y]
+  }
+
+  // Flash：颜色与不透明度从 start 缓动到 end，结束后保持 end
+  private createFlashTween(action: Record<string, any>, start: number, duration: number): EventTween {
+    const from = toColor(action.startColor, "ffffff")
+    const to = toColor(action.endColor, "ffffff")
+    const fromOpacity = (from.opacity * toNumber(action.startOpacity, 100)) / 100
+    const toOpacity = (to.opacity * toNumber(action.endOpacity, 0)) / 100
+    const isBackground = action.plane !== "Foreground"
+    return {
+      start,
+      duration,
+      ease: action.ease,
+      step: (progress) => {
+        const flash = isBackground ? this.background : this.foreground
+        flash.color.copy(from.color).lerp(to.color, progress)
+        flash.opacity = lerp(fromOpacity, toOpacity, progress)
+      },
+    }
+  }
+
+  // Bloom：关闭立即生效，开启时阈值、强度与颜色从当前值缓动到目标值
+  private createBloomTween(action: Record<string, any>, start: number, duration: number): EventTween {
+    const enabled = toToggle(action.enabled, true)
+    const threshold = toNumber(action.threshold, 50) / 100
+    const intensity = toNumber(action.intensity, 100) / 100
+    const color = toColor(action.color, "ffffff").color
+    let from: BloomState = this.bloom
+    return {
+      start,
+      duration,
+      ease: action.ease,
+      begin: () => {
+        from = { ...this.bloom, color: this.bloom.color.clone() }
+        // 从关闭状态开启时不从旧的数值缓动
+        if (!this.bloom.enabled) from = { enabled: true, threshold, intensity: 0, color }
+        this.bloom.enabled = enabled
+      },
+      step: (progress) => {
+        if (!enabled) return
+        this.bloom.threshold = lerp(from.threshold, threshold, progress)
+        this.bloom.intensity = lerp(from.intensity, intensity, progress)
+        this.bloom.color.copy(from.color).lerp(color, progress)
+      },
+    }
+  }
+
+  // SetFilter：强度从当前值缓动到目标值，关闭即缓动到 0；disableOthers 立即关闭其他滤镜
+  private createFilterTween(action: Record<string, any>, start: number, duration: number): EventTween | null {
+    const uniform = FILTER_UNIFORMS[String(action.filter)]
+    if (!uniform) return null
+    const target = toToggle(action.enabled, true) ? toNumber(action.intensity, 100) / 100 : 0
+    let from = 0
+    return {
+      start,
+      duration,
+      ease: action.ease,
+      begin: () => {
+        if (toToggle(action.disableOthers, false)) {
+          FILTER_NAMES.forEach((name) => {
+            if (name !== uniform) this.filters[name] = 0
+          })
+        }
+        from = this.filters[uniform]
+      },
+      step: (progress) => {
+        this.filters[uniform] = lerp(from, target, progress)
+      },
+    }
+  }
+
+  // ShakeScreen：持续 duration，fadeOut 时振幅线性减弱到 0
+  private createShakeTween(action: Record<string, any>, start: number, duration: number): EventTween {
+    const amplitude = (SHAKE_AMPLITUDE * toNumber(action.strength, 100)) / 100
+    const frequency = (SHAKE_FREQUENCY * toNumber(action.intensity, 100)) / 100
+    const fadeOut = toToggle(action.fadeOut, true)
+    const shake: Shake = { amplitude, frequency }
+    return {
+      start,
+      duration,
+      ease: "Linear",
+      begin: () => {
+        shake.amplitude = amplitude
+        this.shakes.add(shake)
+      },
+      step: (progress) => {
+        if (progress >= 1) {
+          this.shakes.delete(shake)
+          return
+        }
+        shake.amplitude = fadeOut ? amplitude * (1 - progress) : amplitude
+      },
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import * as THREE from "three"
+import type { FreeRoamSection } from "@/lib/Player/free_roam"
+import { TILE_Z_STEP } from "./tile_chunks"
+
+/**
+ * 自由移动段的网格：每段合并为一个网格，每格是一块带描边的方形砖块
+ * 顶点颜色与轨道一致：描边为 0、填充为 1，再乘以材质颜色
+ */
+
+// 方形砖块的半边长与描边宽度（格）
+const CELL_HALF_SIZE = 0.42
+const CELL_OUTLINE = 0.025
+
+export class FreeRoamLayer {
+  private meshes: THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial>[] = []
+
+  constructor(private scene: THREE.Scene) {}
+
+  // 按时间轴中的自由移动段重建网格，getColor 返回该段所在砖块的轨道颜色
+  public build(sections: Iterable<FreeRoamSection>, getColor: (tileIndex: number) => number): void {
+    this.clear()
+    for (const section of sections) {
+      const mesh = new THREE.Mesh(
+        this.createGridGeometry(section),
+        new THREE.MeshBasicMaterial({ color: getColor(section.tileIndex), vertexColors: true }),
+      )
+      // 与所在砖块同一层，在之后的砖块下方
+      mesh.position.z = -section.tileIndex * TILE_Z_STEP
+      this.meshes.push(mesh)
+      this.scene.add(mesh)
+    }
+  }
+
+  public dispose(): void {
+    this.clear()
+  }
+
+  private clear(): void {
+    this.meshes.forEach((mesh) => {
+      mesh.removeFromParent()
+      mesh.geometry.dispose()
+      mesh.material.dispose()
+    })
+    this.meshes = []
+  }
+
+  // 先画所有格子的描边再画填充，相邻格子的描边不会盖住填充
+  private createGridGeometry(section: FreeRoamSection): THREE.BufferGeometry {
+    const positions: number[] = []
+    const colors: number[] = []
+    const indices: number[] = []
+    const [width, height] = section.size
+
+    const addSquare = (x: number, y: number, half: number, shade: number): void => {
+      const base = positions.length / 3
+      positions.push(x - half, y - half, 0, x + half, y - half, 0, x + half, y + half, 0, x - half, y + half, 0)
+      for (let i = 0; i < 4; i++) colors.push(shade, shade, shade)
+      indices.push(base, base + 1, base + 2, base + 2, base + 3, base)
+    }
+
+    for (const [half, shade] of [
+      [CELL_HALF_SIZE + CELL_OUTLINE, 0],
+      [CELL_HALF_SIZE - CELL_OUTLINE, 1],
+    ]) {
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          addSquare(section.origin[0] + x, section.origin[1] + y, half, shade)
+        }
+      }
+    }
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3))
+    geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3))
+    geometry.setIndex(indices)
+    return geometry
+  }
+}
@@ -4,8 +4,57 @@ interface Color { r: number; g: number; b: number; }
 
 const TILE_WIDTH = 0.275;
 const TILE_LENGTH = 0.5;
+const SHORT_TILE_LENGTH = 0.35;
 const OUTLINE = 0.025;
 
+type TileShape = 'Long' | 'Short';
+type TrackStyle = 'Standard' | 'Neon' | 'NeonLight' | 'Basic' | 'Minimal' | 'Gems';
+
+// Style descriptor for a single tile
+interface TrackMeshStyle {
+    tileShape: TileShape;
+    trackStyle: TrackStyle;
+    // Scale applied to the tile width / length (1 = default size)
+    widthScale: number;
+    lengthScale: number;
+}
+
+const DEFAULT_TRACK_MESH_STYLE: TrackMeshStyle = {
+    tileShape: 'Long',
+    trackStyle: 'Standard',
+    widthScale: 1,
+    lengthScale: 1,
+};
+
+// Vertex colors are multiplied by the track color in the material,
+// so 1 means "track color" and 0 means black
+interface StylePalette {
+    outline: Color;
+    fill: Color;
+    outlineWidth: number;
+    widthFactor: number;
+}
+
+const gray = (v: number): Color => ({ r: v, g: v, b: v });
+
+const TRACK_STYLE_PALETTES: Record<TrackStyle, StylePalette> = {
+    Standard: { outline: gray(0), fill: gray(1), outlineWidth: OUTLINE, widthFactor: 1 },
+    Neon: { outline: gray(1), fill: gray(0), outlineWidth: OUTLINE * 1.6, widthFactor: 1 },
+    NeonLight: { outline: gray(1), fill: gray(0.35), outlineWidth: OUTLINE * 1.6, widthFactor: 1 },
+    Basic: { outline: gray(1), fill: gray(1), outlineWidth: OUTLINE, widthFactor: 1 },
+    Minimal: { outline: gray(1), fill: gray(1), outlineWidth: 0, widthFactor: 0.8 },
+    Gems: { outline: gray(1), fill: gray(0.7), outlineWidth: OUTLINE * 2, widthFactor: 1 },
+};
+
+const isSameTrackMeshStyle = (a: TrackMeshStyle, b: TrackMeshStyle): boolean => {
+    return (
+        a.tileShape === b.tileShape &&
+        a.trackStyle === b.trackStyle &&
+        a.widthScale === b.widthScale &&
+        a.lengthScale === b.lengthScale
+    );
+};
+
 // Helper functions
 const fmod = (x: number, y: number): number => {
     return x >= 0 ? x % y : (x % y) + y;
@@ -52,25 +101,87 @@ const createCircle = (
 
 interface MeshData { vertices: number[]; faces: number[]; colors: number[]; }
 
+// holdLength is the extra length (in tiles) of a hold bar leaving along endAngle, 0 for a normal tile
 const createTrackMesh = (
     startAngle: number,
     endAngle: number,
     isMidspin: boolean = false,
-    length: number = TILE_LENGTH,
-    width: number = TILE_WIDTH,
-    outline: number = OUTLINE
+    style: TrackMeshStyle = DEFAULT_TRACK_MESH_STYLE,
+    holdLength: number = 0
 ): MeshData => {
+    const palette = TRACK_STYLE_PALETTES[style.trackStyle] || TRACK_STYLE_PALETTES.Standard;
+    const width = TILE_WIDTH * palette.widthFactor * style.widthScale;
+    const length = (style.tileShape === 'Short' ? SHORT_TILE_LENGTH : TILE_LENGTH) * style.lengthScale;
+
     if (isMidspin) {
-        return createMidSpinMesh(startAngle);
+        return createMidSpinMesh(startAngle, width, width, palette.outlineWidth, palette);
+    }
+    const tile = createTileMesh(startAngle, endAngle, length, width, palette.outlineWidth, palette);
+    if (holdLength <= 0) {
+        return tile;
+    }
+
+    // Draw order matters: the bar outline goes under the tile and the bar fill
+    // goes over it, so the tile's exit cap blends into the bar
+    const bar = createHoldBar(endAngle, length + holdLength, width, palette.outlineWidth, palette);
+    return mergeMeshData([bar.outline, tile, bar.fill]);
+};
+
+// A straight bar from the tile center to `length` along `angle`, split into outline and fill
+const createHoldBar = (
+    angle: number,
+    length: number,
+    width: number = TILE_WIDTH,
+    outline: number = OUTLINE,
+    palette: StylePalette = TRACK_STYLE_PALETTES.Standard
+): { outline: MeshData; fill: MeshData } => {
+    const m1 = Math.cos((angle / 180) * Math.PI);
+    const m2 = Math.sin((angle / 180) * Math.PI);
+
+    const createRect = (end: number, halfWidth: number, color: Color): MeshData => {
+        const vertices = [
+            halfWidth * m2, -halfWidth * m1, 0,
+            end * m1 + halfWidth * m2, end * m2 - halfWidth * m1, 0,
+            end * m1 - halfWidth * m2, end * m2 + halfWidth * m1, 0,
+            -halfWidth * m2, halfWidth * m1, 0
+        ];
+        const colors: number[] = [];
+        for (let i = 0; i < 4; i++) {
+            colors.push(color.r, color.g, color.b);
+        }
+        return { vertices, faces: [0, 1, 2, 2, 3, 0], colors };
+    };
+
+    return {
+        outline: createRect(length + outline, width + outline, palette.outline),
+        fill: createRect(length - outline, width - outline, palette.fill),
+    };
+};
+
+// Concatenates meshes in order, offsetting face indices
+const mergeMeshData = (meshes: MeshData[]): MeshData => {
+    const vertices: number[] = [];
+    const faces: number[] = [];
+    const colors: number[] = [];
+
+    for (const mesh of meshes) {
+        const base = vertices.length / 3;
+        vertices.push(...mesh.vertices);
+        colors.push(...mesh.colors);
+        for (const face of mesh.faces) {
+            faces.push(face + base);
+        }
     }
-    return createTileMesh(startAngle, endAngle, length, width, outline);
+
+    return { vertices, faces, colors };
 };
 
 const createMidSpinMesh = (
     angle: number,
     width: number = TILE_WIDTH,
     length: number = TILE_WIDTH,
-    outline: number = OUTLINE
+    outline: number = OUTLINE,
+    palette: StylePalette = TRACK_STYLE_PALETTES.Standard
 ): MeshData => {
     let widthi = width;
     let lengthi = length;
@@ -89,7 +200,7 @@ const createMidSpinMesh = (
     lengthi += outline;
 
     let count = 0;
-    const blackColor: Color = { r: 0, g: 0, b: 0 };
+    const blackColor: Color = palette.outline;
 
     // Add vertices for main body
     vertices.push(
@@ -111,11 +222,11 @@ const createMidSpinMesh = (
     faces.push(count, count + 1, count + 2, count + 2, count + 3, count, count + 4, count + 5, count + 6);
 
     // Inner part (white)
-    width -= OUTLINE * 2;
-    lengthi -= OUTLINE * 2;
+    width -= outline * 2;
+    lengthi -= outline * 2;
 
     count = vertices.length / 3;
-    const whiteColor: Color = { r: 1, g: 1, b: 1 };
+    const whiteColor: Color = palette.fill;
 
     // Add vertices for inner part
     vertices.push(
@@ -144,7 +255,8 @@ const createTileMesh = (
     endAngle: number,
     length: number,
     width: number,
-    outline: number
+    outline: number,
+    palette: StylePalette = TRACK_STYLE_PALETTES.Standard
 ): MeshData => {
     const vertices: number[] = [];
     const faces: number[] = [];
@@ -169,8 +281,8 @@ const createTileMesh = (
     const angle = a[1] - a[0];
     const mid = a[0] + angle / 2;
 
-    const blackColor: Color = { r: 0, g: 0, b: 0 };
-    const whiteColor: Color = { r: 1, g: 1, b: 1 };
+    const blackColor: Color = palette.outline;
+    const whiteColor: Color = palette.fill;
 
     if (angle < 2.0943952 && angle > 0) {
         // Small angle case
@@ -404,6 +516,6 @@ interface MeshData {
   faces: number[];
 }
 
-export { fmod, lerp, createCircle, createMidSpinMesh, createTileMesh };
-export type { MeshData };
+export { fmod, lerp, createCircle, createMidSpinMesh, createTileMesh, createHoldBar, DEFAULT_TRACK_MESH_STYLE, isSameTrackMeshStyle };
+export type { MeshData, TileShape, TrackStyle, TrackMeshStyle };
 export default createTrackMesh;
\ No newline at end of file
@@ -0,0 +1,82 @@
+// 均匀网格空间索引：按包围盒登记条目，查询与矩形相交的条目
+
+interface GridCell {
+  x: number
+  y: number
+  ids: number[]
+}
+
+export class SpatialGrid {
+  private cells: Map<string, GridCell> = new Map()
+  // 已登记条目覆盖的网格范围，查询时据此裁剪，避免缩小视图时遍历大量空格子
+  private minCellX = Infinity
+  private minCellY = Infinity
+  private maxCellX = -Infinity
+  private maxCellY = -Infinity
+
+  constructor(private cellSize: number) {}
+
+  private cellOf(value: number): number {
+    return Math.floor(value / this.cellSize)
+  }
+
+  // 登记条目 id，包围盒省略时视为点
+  public insert(id: number, minX: number, minY: number, maxX = minX, maxY = minY): void {
+    const x0 = this.cellOf(minX)
+    const y0 = this.cellOf(minY)
+    const x1 = this.cellOf(maxX)
+    const y1 = this.cellOf(maxY)
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        const key = `${x},${y}`
+        const cell = this.cells.get(key)
+        if (cell) {
+          cell.ids.push(id)
+        } else {
+          this.cells.set(key, { x, y, ids: [id] })
+        }
+      }
+    }
+    this.minCellX = Math.min(this.minCellX, x0)
+    this.minCellY = Math.min(this.minCellY, y0)
+    this.maxCellX = Math.max(this.maxCellX, x1)
+    this.maxCellY = Math.max(this.maxCellY, y1)
+  }
+
+  /**
+   * 与矩形所在格子相交的条目（去重，未排序）
+   * 结果按格子粒度给出，需要精确判断时由调用方再筛选
+   */
+  public query(minX: number, minY: number, maxX: number, maxY: number): number[] {
+    const x0 = Math.max(this.cellOf(minX), this.minCellX)
+    const y0 = Math.max(this.cellOf(minY), this.minCellY)
+    const x1 = Math.min(this.cellOf(maxX), this.maxCellX)
+    const y1 = Math.min(this.cellOf(maxY), this.maxCellY)
+
+    const result = new Set<number>()
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > this.cells.size) {
+      // 范围内的格子比已有的格子还多时，直接遍历已有的格子
+      this.cells.forEach((cell) => {
+        if (cell.x >= x0 && cell.x <= x1 && cell.y >= y0 && cell.y <= y1) {
+          cell.ids.forEach((id) => result.add(id))
+        }
+      })
+      return Array.from(result)
+    }
+
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        this.cells.get(`${x},${y}`)?.ids.forEach((id) => result.add(id))
+      }
+    }
+    return Array.from(result)
+  }
+
+  public clear(): void {
+    this.cells.clear()
+    this.minCellX = Infinity
+    this.minCellY = Infinity
+    this.maxCellX = -Infinity
+    this.maxCellY = -Infinity
+  }
+}
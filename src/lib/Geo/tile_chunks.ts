@@ -0,0 +1,443 @@
+import * as THREE from "three"
+import { buildChunkGeometry, type ChunkGeometry, type TileMeshInput } from "./chunk_geometry"
+import { SpatialGrid } from "./spatial_index"
+
+/**
+ * 分块渲染轨道：每 CHUNK_SIZE 个连续砖块合并为一个网格
+ * 只为视野内的分块生成几何体，离开视野的分块立即释放；
+ * 视野裁剪、点选与框选都通过空间索引完成，不遍历全部砖块
+ * 几何体可以交给 Worker 异步生成，生成期间该分块暂不显示
+ */
+
+// 每个分块包含的砖块数
+export const CHUNK_SIZE = 256
+
+// 相邻砖块的深度差：前面的砖块在上层
+export const TILE_Z_STEP = 0.001
+
+// 砖块几何体相对中心的最大伸出距离，用于包围盒
+const TILE_EXTENT = 0.75
+
+const TILE_CELL_SIZE = 8
+const CHUNK_CELL_SIZE = 32
+
+export interface TileColor {
+  // 0xRRGGBB 与不透明度 0-1
+  color: number
+  opacity: number
+}
+
+// 砖块相对原位置的变换：偏移（格）、绕砖块中心的旋转（度，顺时针为正）、缩放与不透明度（0-1）
+export interface TileTransform {
+  offsetX: number
+  offsetY: number
+  rotation: number
+  scaleX: number
+  scaleY: number
+  opacity: number
+}
+
+// 分块渲染所需的砖块数据，由使用方提供
+export interface TileChunkSource {
+  getTileCount(): number
+  getTilePosition(index: number): [number, number]
+  // 砖块网格的形状参数，位置由分块填入
+  getTileMeshInput(index: number): Omit<TileMeshInput, "x" | "y" | "z">
+  getTileColor(index: number): TileColor
+  // 砖块的变换，不提供时砖块固定在原位置
+  getTileTransform?(index: number): TileTransform
+  // 附加在砖块上的对象（例如事件图标），随分块一起创建与释放
+  createTileOverlays?(index: number, x: number, y: number, z: number): THREE.Object3D[]
+  // 异步生成分块几何体（例如交给 Worker），不提供或失败时在主线程生成
+  buildChunkGeometry?(tiles: TileMeshInput[]): Promise<ChunkGeometry>
+}
+
+interface Bounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+interface BuiltChunk {
+  group: THREE.Group
+  mesh: THREE.Mesh
+  // 每个砖块在分块中的起始三角形与起始顶点，末尾多一项表示总数
+  triangleStarts: Uint32Array
+  vertexStarts: Uint32Array
+  // 顶点的明暗系数（RGB）
+  shades: Float32Array
+  // 未变换的顶点坐标
+  basePositions: Float32Array
+}
+
+export class TileChunkRenderer {
+  private chunkBounds: Bounds[] = []
+  private built: Map<number, BuiltChunk> = new Map()
+  // 正在异步生成的分块及其请求编号，分块被释放后结果作废
+  private pending: Map<number, number> = new Map()
+  private requestId = 0
+  private tileGrid = new SpatialGrid(TILE_CELL_SIZE)
+  private chunkGrid = new SpatialGrid(CHUNK_CELL_SIZE)
+  private material = new THREE.MeshBasicMaterial({
+    vertexColors: true,
+    transparent: true,
+    side: THREE.DoubleSide,
+  })
+  private overlaysVisible = true
+
+  constructor(
+    private scene: THREE.Scene,
+    private source: TileChunkSource,
+  ) {
+    this.rebuildIndex()
+  }
+
+  /**
+   * 重新建立空间索引（砖块增删或位置变化后调用）
+   * 已生成的分块不受影响，需要时配合 invalidate 使用
+   */
+  public rebuildIndex(): void {
+    this.tileGrid.clear()
+    this.chunkGrid.clear()
+    this.chunkBounds = []
+
+    const tileCount = this.source.getTileCount()
+    for (let i = 0; i < tileCount; i++) {
+      const [x, y] = this.source.getTilePosition(i)
+      this.tileGrid.insert(i, x, y)
+
+      const chunkIndex = Math.floor(i / CHUNK_SIZE)
+      const bounds = this.chunkBounds[chunkIndex]
+      if (bounds) {
+        bounds.minX = Math.min(bounds.minX, x - TILE_EXTENT)
+        bounds.minY = Math.min(bounds.minY, y - TILE_EXTENT)
+        bounds.maxX = Math.max(bounds.maxX, x + TILE_EXTENT)
+        bounds.maxY = Math.max(bounds.maxY, y + TILE_EXTENT)
+      } else {
+        this.chunkBounds[chunkIndex] = {
+          minX: x - TILE_EXTENT,
+          minY: y - TILE_EXTENT,
+          maxX: x + TILE_EXTENT,
+          maxY: y + TILE_EXTENT,
+        }
+      }
+    }
+
+    this.chunkBounds.forEach((bounds, chunkIndex) => {
+      this.chunkGrid.insert(chunkIndex, bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
+    })
+
+    // 超出新砖块数量的分块直接释放
+    this.getKnownChunks().forEach((chunkIndex) => {
+      if (chunkIndex >= this.chunkBounds.length) this.releaseChunk(chunkIndex)
+    })
+  }
+
+  // 释放包含 from 到 to 之间砖块的分块，下次 update 时重新生成
+  public invalidate(from = 0, to = Infinity): void {
+    const first = Math.floor(Math.max(from, 0) / CHUNK_SIZE)
+    const last = to === Infinity ? Infinity : Math.floor(to / CHUNK_SIZE)
+    this.getKnownChunks().forEach((chunkIndex) => {
+      if (chunkIndex >= first && chunkIndex <= last) this.releaseChunk(chunkIndex)
+    })
+  }
+
+  // 释放包含指定砖块的分块
+  public invalidateTiles(indices: Iterable<number>): void {
+    const chunks = new Set<number>()
+    for (const index of indices) {
+      chunks.add(Math.floor(index / CHUNK_SIZE))
+    }
+    chunks.forEach((chunkIndex) => this.releaseChunk(chunkIndex))
+  }
+
+  /**
+   * 显示与视野相交的分块，其余分块释放
+   * limit > 0 时按离视野中心的距离保留分块，直到砖块数达到 limit
+   */
+  public update(view: Bounds, limit = 0): void {
+    let visible = this.chunkGrid.query(view.minX, view.minY, view.maxX, view.maxY).filter((chunkIndex) => {
+      const bounds = this.chunkBounds[chunkIndex]
+      return bounds.maxX >= view.minX && bounds.minX <= view.maxX && bounds.maxY >= view.minY && bounds.minY <= view.maxY
+    })
+
+    if (limit > 0 && visible.length * CHUNK_SIZE > limit) {
+      const centerX = (view.minX + view.maxX) / 2
+      const centerY = (view.minY + view.maxY) / 2
+      const distance = (chunkIndex: number): number => {
+        const bounds = this.chunkBounds[chunkIndex]
+        return Math.hypot((bounds.minX + bounds.maxX) / 2 - centerX, (bounds.minY + bounds.maxY) / 2 - centerY)
+      }
+      visible = visible.sort((a, b) => distance(a) - distance(b)).slice(0, Math.ceil(limit / CHUNK_SIZE))
+    }
+
+    const visibleSet = new Set(visible)
+    this.getKnownChunks().forEach((chunkIndex) => {
+      if (!visibleSet.has(chunkIndex)) this.releaseChunk(chunkIndex)
+    })
+    visible.forEach((chunkIndex) => {
+      if (!this.built.has(chunkIndex) && !this.pending.has(chunkIndex)) this.requestChunk(chunkIndex)
+    })
+  }
+
+  /**
+   * 重新计算砖块颜色，不传 indices 时更新所有已生成的分块
+   */
+  public updateColors(indices?: Iterable<number>): void {
+    if (!indices) {
+      this.built.forEach((chunk, chunkIndex) => {
+        const tileCount = chunk.vertexStarts.length - 1
+        for (let k = 0; k < tileCount; k++) {
+          this.writeTileColor(chunk, k, chunkIndex * CHUNK_SIZE + k)
+        }
+        this.getColorAttribute(chunk).needsUpdate = true
+      })
+      return
+    }
+
+    for (const index of indices) {
+      const chunk = this.built.get(Math.floor(index / CHUNK_SIZE))
+      if (!chunk) continue
+      this.writeTileColor(chunk, index % CHUNK_SIZE, index)
+      this.getColorAttribute(chunk).needsUpdate = true
+    }
+  }
+
+  /**
+   * 重新应用砖块的变换（位置与不透明度），不传 indices 时更新所有已生成的分块
+   */
+  public updateTransforms(indices?: Iterable<number>): void {
+    const touched = new Set<BuiltChunk>()
+    if (!indices) {
+      this.built.forEach((chunk, chunkIndex) => {
+        const tileCount = chunk.vertexStarts.length - 1
+        for (let k = 0; k < tileCount; k++) {
+          this.writeTileTransform(chunk, k, chunkIndex * CHUNK_SIZE + k)
+        }
+        touched.add(chunk)
+      })
+    } else {
+      for (const index of indices) {
+        const chunk = this.built.get(Math.floor(index / CHUNK_SIZE))
+        if (!chunk) continue
+        this.writeTileTransform(chunk, index % CHUNK_SIZE, index)
+        touched.add(chunk)
+      }
+    }
+
+    // 包围球用于射线拾取与视锥裁剪，顶点移动后需要重新计算
+    touched.forEach((chunk) => {
+      chunk.mesh.geometry.getAttribute("position").needsUpdate = true
+      this.getColorAttribute(chunk).needsUpdate = true
+      chunk.mesh.geometry.computeBoundingSphere()
+    })
+  }
+
+  // 射线拾取最上层的砖块
+  public pick(raycaster: THREE.Raycaster): number | null {
+    const meshes = Array.from(this.built.values()).map((chunk) => chunk.mesh)
+    const hits = raycaster.intersectObjects(meshes, false)
+    // 前面的砖块在上层，深度相同时取索引较小的
+    let result: number | null = null
+    let bestZ = -Infinity
+    hits.forEach((hit) => {
+      if (hit.faceIndex === undefined || hit.faceIndex === null) return
+      const chunkIndex = hit.object.userData.chunkIndex as number
+      const chunk = this.built.get(chunkIndex)
+      if (!chunk) return
+      const k = findRange(chunk.triangleStarts, hit.faceIndex)
+      const index = chunkIndex * CHUNK_SIZE + k
+      const z = -index * TILE_Z_STEP
+      if (z > bestZ) {
+        bestZ = z
+        result = index
+      }
+    })
+    return result
+  }
+
+  // 中心位于矩形内的砖块，按索引排序
+  public queryRect(minX: number, minY: number, maxX: number, maxY: number): number[] {
+    return this.tileGrid
+      .query(minX, minY, maxX, maxY)
+      .filter((index) => {
+        const [x, y] = this.source.getTilePosition(index)
+        return x >= minX && x <= maxX && y >= minY && y <= maxY
+      })
+      .sort((a, b) => a - b)
+  }
+
+  // 当前生成的砖块数（用于信息显示）
+  public getRenderedTileCount(): number {
+    let count = 0
+    this.built.forEach((chunk) => {
+      count += chunk.vertexStarts.length - 1
+    })
+    return count
+  }
+
+  public setOverlaysVisible(visible: boolean): void {
+    this.overlaysVisible = visible
+    this.built.forEach((chunk) => {
+      chunk.group.children.forEach((child) => {
+        if (child !== chunk.mesh) child.visible = visible
+      })
+    })
+  }
+
+  public dispose(): void {
+    this.getKnownChunks().forEach((chunkIndex) => this.releaseChunk(chunkIndex))
+    this.material.dispose()
+    this.tileGrid.clear()
+    this.chunkGrid.clear()
+    this.chunkBounds = []
+  }
+
+  // 已生成或正在生成的分块
+  private getKnownChunks(): number[] {
+    return Array.from(new Set([...Array.from(this.built.keys()), ...Array.from(this.pending.keys())]))
+  }
+
+  private requestChunk(chunkIndex: number): void {
+    const start = chunkIndex * CHUNK_SIZE
+    const end = Math.min(start + CHUNK_SIZE, this.source.getTileCount())
+    const tiles: TileMeshInput[] = []
+    for (let index = start; index < end; index++) {
+      const [x, y] = this.source.getTilePosition(index)
+      tiles.push({ ...this.source.getTileMeshInput(index), x, y, z: -index * TILE_Z_STEP })
+    }
+
+    if (!this.source.buildChunkGeometry) {
+      this.createChunk(chunkIndex, buildChunkGeometry(tiles))
+      return
+    }
+
+    const requestId = ++this.requestId
+    this.pending.set(chunkIndex, requestId)
+    this.source
+      .buildChunkGeometry(tiles)
+      .catch((error) => {
+        console.warn("Chunk geometry worker failed, building on main thread:", error)
+        return buildChunkGeometry(tiles)
+      })
+      .then((geometry) => {
+        if (this.pending.get(chunkIndex) !== requestId) return
+        this.pending.delete(chunkIndex)
+        this.createChunk(chunkIndex, geometry)
+      })
+  }
+
+  private createChunk(chunkIndex: number, data: ChunkGeometry): void {
+    const start = chunkIndex * CHUNK_SIZE
+    const tileCount = data.vertexStarts.length - 1
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setIndex(new THREE.BufferAttribute(data.indices, 1))
+    geometry.setAttribute("position", new THREE.BufferAttribute(data.positions.slice(), 3))
+    geometry.setAttribute("color", new THREE.BufferAttribute(new Float32Array((data.positions.length / 3) * 4), 4))
+    geometry.computeBoundingSphere()
+
+    const mesh = new THREE.Mesh(geometry, this.material)
+    mesh.userData.chunkIndex = chunkIndex
+    const group = new THREE.Group()
+    group.add(mesh)
+
+    for (let index = start; index < start + tileCount; index++) {
+      const [x, y] = this.source.getTilePosition(index)
+      this.source.createTileOverlays?.(index, x, y, -index * TILE_Z_STEP).forEach((overlay) => {
+        overlay.visible = this.overlaysVisible
+        group.add(overlay)
+      })
+    }
+
+    const chunk: BuiltChunk = {
+      group,
+      mesh,
+      triangleStarts: data.triangleStarts,
+      vertexStarts: data.vertexStarts,
+      shades: data.shades,
+      basePositions: data.positions,
+    }
+    for (let k = 0; k < tileCount; k++) {
+      if (this.source.getTileTransform) {
+        this.writeTileTransform(chunk, k, start + k)
+      } else {
+        this.writeTileColor(chunk, k, start + k)
+      }
+    }
+    if (this.source.getTileTransform) geometry.computeBoundingSphere()
+
+    this.built.set(chunkIndex, chunk)
+    this.scene.add(group)
+  }
+
+  private releaseChunk(chunkIndex: number): void {
+    this.pending.delete(chunkIndex)
+    const chunk = this.built.get(chunkIndex)
+    if (!chunk) return
+    this.scene.remove(chunk.group)
+    chunk.mesh.geometry.dispose()
+    this.built.delete(chunkIndex)
+  }
+
+  private getColorAttribute(chunk: BuiltChunk): THREE.BufferAttribute {
+    return chunk.mesh.geometry.getAttribute("color") as THREE.BufferAttribute
+  }
+
+  // 把砖块颜色与明暗系数相乘写入第 k 个砖块的顶点
+  private writeTileColor(chunk: BuiltChunk, k: number, index: number): void {
+    const { color, opacity: colorOpacity } = this.source.getTileColor(index)
+    const opacity = colorOpacity * (this.source.getTileTransform?.(index).opacity ?? 1)
+    const r = ((color >> 16) & 0xff) / 255
+    const g = ((color >> 8) & 0xff) / 255
+    const b = (color & 0xff) / 255
+    const array = this.getColorAttribute(chunk).array as Float32Array
+    for (let v = chunk.vertexStarts[k]; v < chunk.vertexStarts[k + 1]; v++) {
+      array[v * 4] = chunk.shades[v * 3] * r
+      array[v * 4 + 1] = chunk.shades[v * 3 + 1] * g
+      array[v * 4 + 2] = chunk.shades[v * 3 + 2] * b
+      array[v * 4 + 3] = opacity
+    }
+  }
+
+  // 按变换改写第 k 个砖块的顶点坐标，并更新不透明度
+  private writeTileTransform(chunk: BuiltChunk, k: number, index: number): void {
+    const transform = this.source.getTileTransform?.(index)
+    const array = chunk.mesh.geometry.getAttribute("position").array as Float32Array
+    const from = chunk.vertexStarts[k] * 3
+    const to = chunk.vertexStarts[k + 1] * 3
+
+    if (transform) {
+      const [centerX, centerY] = this.source.getTilePosition(index)
+      const angle = (-transform.rotation * Math.PI) / 180
+      const cos = Math.cos(angle)
+      const sin = Math.sin(angle)
+      for (let i = from; i < to; i += 3) {
+        const x = (chunk.basePositions[i] - centerX) * transform.scaleX
+        const y = (chunk.basePositions[i + 1] - centerY) * transform.scaleY
+        array[i] = centerX + transform.offsetX + x * cos - y * sin
+        array[i + 1] = centerY + transform.offsetY + x * sin + y * cos
+        array[i + 2] = chunk.basePositions[i + 2]
+      }
+    } else {
+      array.set(chunk.basePositions.subarray(from, to), from)
+    }
+    this.writeTileColor(chunk, k, index)
+  }
+}
+
+// starts 为递增的起始位置（末尾为总数），返回 value 所在的区间
+function findRange(starts: ArrayLike<number>, value: number): number {
+  let low = 0
+  let high = starts.length - 2
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (starts[mid] <= value) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+  return low
+}
@@ -0,0 +1,35 @@
+import type * as ADOFAI from "adofai"
+import { DEFAULT_TRACK_MESH_STYLE, type TileShape, type TrackMeshStyle, type TrackStyle } from "./mesh_reserve"
+
+// 每个砖块的网格样式：settings 的 tileShape/trackStyle，ColorTrack 改变之后砖块的 trackStyle，ScaleRadius 缩放之后的砖块
+
+const TILE_SHAPES: TileShape[] = ["Long", "Short"]
+const TRACK_STYLES: TrackStyle[] = ["Standard", "Neon", "NeonLight", "Basic", "Minimal", "Gems"]
+
+const pick = <T extends string>(value: unknown, options: T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback
+
+/**
+ * 计算所有砖块的网格样式，结果与 level.tiles 一一对应
+ * RecolorTrack 的 trackStyle 只在播放时生效，不影响静态网格
+ */
+export function buildTrackMeshStyles(level: ADOFAI.Level): TrackMeshStyle[] {
+  const settings: Record<string, any> = level?.settings || {}
+  let style: TrackMeshStyle = {
+    ...DEFAULT_TRACK_MESH_STYLE,
+    tileShape: pick(settings.tileShape, TILE_SHAPES, DEFAULT_TRACK_MESH_STYLE.tileShape),
+    trackStyle: pick(settings.trackStyle, TRACK_STYLES, DEFAULT_TRACK_MESH_STYLE.trackStyle),
+  }
+
+  return (level?.tiles || []).map((tile) => {
+    for (const action of tile.actions || []) {
+      if (action.eventType === "ColorTrack" && action.trackStyle !== undefined) {
+        style = { ...style, trackStyle: pick(action.trackStyle, TRACK_STYLES, style.trackStyle) }
+      } else if (action.eventType === "ScaleRadius") {
+        const scale = Math.max(Number(action.scale ?? 100), 0) / 100
+        style = { ...style, widthScale: scale, lengthScale: scale }
+      }
+    }
+    return style
+  })
+}
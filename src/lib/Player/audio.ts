@@ -0,0 +1,258 @@
+// 基于 Web Audio 的歌曲播放器，同时作为播放时钟使用
+
+// 保持音高变速时，音频时钟推算的位置与 HTMLAudioElement 实际位置相差超过该值（毫秒）就重新对齐
+const MEDIA_DRIFT_TOLERANCE = 30
+
+declare global {
+  interface Window {
+    webkitAudioContext?: typeof AudioContext
+  }
+}
+
+export class SongPlayer {
+  private context: AudioContext | null = null
+  private gainNode: GainNode | null = null
+  private buffer: AudioBuffer | null = null
+  private source: AudioBufferSourceNode | null = null
+  // 保持音高变速时使用 HTMLAudioElement 播放
+  private mediaElement: HTMLAudioElement | null = null
+  // HTMLAudioElement 接入 gainNode 的节点，每个元素只能创建一次
+  private mediaSource: MediaElementAudioSourceNode | null = null
+  private mediaUrl: string | null = null
+  private mediaTimer: number | null = null
+  private playing = false
+  private playbackRate = 1
+  // 播放速度倍率（0.25-2），与关卡的 pitch 叠加
+  private speed = 1
+  private preservePitch = false
+  private volume = 1
+  // 开始播放时的歌曲位置（毫秒）与对应的时钟时间（秒）
+  private startPosition = 0
+  private startClockTime = 0
+
+  // 获取（必要时创建）AudioContext，不支持 Web Audio 时返回 null
+  public getContext(): AudioContext | null {
+    if (this.context) return this.context
+
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext
+    if (!AudioContextClass) return null
+
+    try {
+      this.context = new AudioContextClass()
+      this.gainNode = this.context.createGain()
+      this.gainNode.gain.value = this.volume
+      this.gainNode.connect(this.context.destination)
+    } catch (error) {
+      console.warn("Failed to create AudioContext:", error)
+      this.context = null
+    }
+    return this.context
+  }
+
+  public async load(data: ArrayBuffer): Promise<void> {
+    const context = this.getContext()
+    if (!context) throw new Error("Web Audio is not supported")
+
+    // decodeAudioData 会分离 ArrayBuffer，需要先保留一份给 HTMLAudioElement
+    this.releaseMedia()
+    this.mediaUrl = URL.createObjectURL(new Blob([data]))
+    this.buffer = await context.decodeAudioData(data)
+  }
+
+  public hasSong(): boolean {
+    return this.buffer !== null
+  }
+
+  // 歌曲时长（毫秒）
+  public getDuration(): number {
+    return this.buffer ? this.buffer.duration * 1000 : 0
+  }
+
+  // 音量，100 为原始音量
+  public setVolume(volume: number): void {
+    this.volume = Math.max(volume, 0) / 100
+    if (this.gainNode) {
+      this.gainNode.gain.value = this.volume
+    }
+  }
+
+  // 音高（同时改变播放速度），100 为原速
+  public setPitch(pitch: number): void {
+    this.playbackRate = Math.max(pitch, 1) / 100
+  }
+
+  /**
+   * 播放速度倍率；preservePitch 为 true 时变速不变调
+   * 播放中调用会从当前位置以新速度继续
+   */
+  public setSpeed(speed: number, preservePitch: boolean): void {
+    const position = this.getPosition()
+    this.speed = Math.min(Math.max(speed, 0.25), 2)
+    this.preservePitch = preservePitch
+    if (this.playing) {
+      this.play(position)
+    }
+  }
+
+  public isPlaying(): boolean {
+    return this.playing
+  }
+
+  // 实际的播放速率：关卡 pitch 与速度倍率的乘积
+  private getRate(): number {
+    return this.playbackRate * this.speed
+  }
+
+  /**
+   * 从歌曲的 position 毫秒处开始播放，position 可以为负数（延迟开始）
+   */
+  public play(position = 0): void {
+    this.stop()
+
+    const context = this.getContext()
+    this.startPosition = position
+    this.startClockTime = this.getClockTime()
+    this.playing = true
+
+    if (!context || !this.buffer || !this.gainNode) return
+
+    if (context.state === "suspended") {
+      context.resume().catch((error) => console.warn("Failed to resume AudioContext:", error))
+    }
+
+    const delay = position < 0 ? -position / 1000 / this.getRate() : 0
+    const offset = Math.max(position, 0) / 1000
+    if (offset >= this.buffer.duration) return
+
+    if (this.preservePitch && this.speed !== 1 && this.mediaUrl) {
+      this.playMedia(context, this.gainNode, offset, delay)
+      return
+    }
+
+    const source = context.createBufferSource()
+    source.buffer = this.buffer
+    source.playbackRate.value = this.getRate()
+    source.connect(this.gainNode)
+    source.start(this.startClockTime + delay, offset)
+    this.source = source
+  }
+
+  /**
+   * 用 HTMLAudioElement 保持音高变速播放，经 gainNode 输出以支持超过 100 的音量
+   * 元素无法在音频时钟上预约，负数位置的延迟用定时器等待，播放后 getPosition 以元素的位置为准
+   */
+  private playMedia(context: AudioContext, gainNode: GainNode, offset: number, delay: number): void {
+    if (!this.mediaElement) {
+      this.mediaElement = new Audio(this.mediaUrl!)
+      this.mediaSource = context.createMediaElementSource(this.mediaElement)
+      this.mediaSource.connect(gainNode)
+    }
+    const media = this.mediaElement
+    media.preservesPitch = true
+    media.playbackRate = this.getRate()
+    media.currentTime = offset
+
+    const start = (): void => {
+      this.mediaTimer = null
+      media.play().catch((error) => console.warn("Failed to play song:", error))
+    }
+    if (delay > 0) {
+      this.mediaTimer = window.setTimeout(start, delay * 1000)
+    } else {
+      start()
+    }
+  }
+
+  public stop(): void {
+    if (this.source) {
+      try {
+        this.source.stop()
+      } catch {
+        // 尚未开始的音源调用 stop 可能抛错，忽略即可
+      }
+      this.source.disconnect()
+      this.source = null
+    }
+    if (this.mediaTimer !== null) {
+      clearTimeout(this.mediaTimer)
+      this.mediaTimer = null
+    }
+    this.mediaElement?.pause()
+    this.playing = false
+  }
+
+  private releaseMedia(): void {
+    if (this.mediaElement) {
+      this.mediaElement.pause()
+      this.mediaElement = null
+    }
+    if (this.mediaSource) {
+      this.mediaSource.disconnect()
+      this.mediaSource = null
+    }
+    if (this.mediaUrl) {
+      URL.revokeObjectURL(this.mediaUrl)
+      this.mediaUrl = null
+    }
+  }
+
+  /**
+   * 当前歌曲位置（毫秒），播放时由音频时钟推算
+   * HTMLAudioElement 播放时与元素的实际位置对齐，偏差过大时把起点移到元素的位置，getClockTimeAt 随之更新
+   */
+  public getPosition(): number {
+    if (!this.playing) return this.startPosition
+    const clockTime = this.getClockTime()
+    const position = this.startPosition + (clockTime - this.startClockTime) * 1000 * this.getRate()
+
+    const media = this.mediaElement
+    if (media && this.mediaTimer === null && !media.paused && !media.ended) {
+      const mediaPosition = media.currentTime * 1000
+      if (Math.abs(mediaPosition - position) > MEDIA_DRIFT_TOLERANCE) {
+        this.startPosition = mediaPosition
+        this.startClockTime = clockTime
+        return mediaPosition
+      }
+    }
+    return position
+  }
+
+  // 歌曲位置对应的音频时钟时间（秒），用于在 Web Audio 时间线上预约声音
+  public getClockTimeAt(position: number): number {
+    return this.startClockTime + (position - this.startPosition) / 1000 / this.getRate()
+  }
+
+  /**
+   * 当前位置附近 windowMs 内的响度（RMS，0-1），直接从解码后的音频数据计算
+   * 没有歌曲或未在播放时返回 0
+   */
+  public getLevel(windowMs = 50): number {
+    if (!this.playing || !this.buffer) return 0
+    const data = this.buffer.getChannelData(0)
+    const start = Math.floor((this.getPosition() / 1000) * this.buffer.sampleRate)
+    const end = Math.min(start + Math.floor((windowMs / 1000) * this.buffer.sampleRate), data.length)
+    if (start < 0 || start >= end) return 0
+
+    let sum = 0
+    for (let i = start; i < end; i++) {
+      sum += data[i] * data[i]
+    }
+    return Math.sqrt(sum / (end - start))
+  }
+
+  // 音频时钟（秒），没有 AudioContext 时退回 performance.now
+  public getClockTime(): number {
+    return this.context ? this.context.currentTime : performance.now() / 1000
+  }
+
+  public dispose(): void {
+    this.stop()
+    this.releaseMedia()
+    this.buffer = null
+    if (this.context) {
+      this.context.close().catch(() => undefined)
+      this.context = null
+      this.gainNode = null
+    }
+  }
+}
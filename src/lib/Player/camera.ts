@@ -0,0 +1,177 @@
+import type * as ADOFAI from "adofai"
+import { ease } from "./easing"
+import { getEventTiming, getOrbitState, getTilePosition, type TileTiming } from "./timeline"
+
+// 播放时的摄像机：settings 的 relativeTo/position/rotation/zoom 为初始状态，MoveCamera 事件按时间缓动改变
+
+export interface CameraState {
+  x: number
+  y: number
+  // 旋转（度）与缩放（百分比，越大看到的范围越大）
+  rotation: number
+  zoom: number
+}
+
+// 摄像机跟随的对象，LastPosition 在解析时换算为 Global
+type CameraAnchor = "Player" | "Tile" | "Global"
+
+interface CameraTarget {
+  anchor: CameraAnchor
+  // anchor 为 Tile 时跟随的砖块
+  tile: number
+  offset: [number, number]
+  rotation: number
+  zoom: number
+}
+
+// 一次摄像机移动：从 from 缓动到 target，下一次移动开始时打断本次
+interface CameraMove {
+  // 开始时间与持续时间（毫秒）
+  start: number
+  duration: number
+  ease: unknown
+  from: CameraState
+  target: CameraTarget
+}
+
+const ANCHORS: CameraAnchor[] = ["Player", "Tile", "Global"]
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const number = Number(value)
+  return value !== null && value !== undefined && Number.isFinite(number) ? number : fallback
+}
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t
+
+/**
+ * 整首歌的摄像机轨迹
+ * 所有移动在构造时按时间排好，每次移动的起点在构造时算出，因此 getState 可以直接跳到任意时间
+ */
+export class CameraTimeline {
+  private moves: CameraMove[] = []
+
+  constructor(
+    private level: ADOFAI.Level,
+    private timeline: TileTiming[],
+  ) {
+    const settings: Record<string, any> = level?.settings || {}
+    const initial = this.resolveTarget(
+      {
+        relativeTo: settings.relativeTo ?? "Player",
+        position: settings.position,
+        rotation: settings.rotation ?? 0,
+        zoom: settings.zoom ?? 100,
+      },
+      { anchor: "Player", tile: 0, offset: [0, 0], rotation: 0, zoom: 100 },
+      { x: 0, y: 0, rotation: 0, zoom: 100 },
+      0,
+    )
+    const first: CameraMove = {
+      start: -Infinity,
+      duration: 0,
+      ease: "Linear",
+      from: { x: 0, y: 0, rotation: initial.rotation, zoom: initial.zoom },
+      target: initial,
+    }
+
+    const events: { start: number; duration: number; tile: number; action: Record<string, any> }[] = []
+    ;(level?.tiles || []).forEach((tile, tileIndex) => {
+      const timing = timeline[tileIndex]
+      if (!timing) return
+      for (const action of tile.actions || []) {
+        if (action.eventType !== "MoveCamera") continue
+        events.push({ ...getEventTiming(timing, action), tile: tileIndex, action })
+      }
+    })
+    // 同一时间的事件保持原有顺序
+    events.sort((a, b) => a.start - b.start)
+
+    this.moves.push(first)
+    events.forEach((event) => {
+      const previous = this.moves[this.moves.length - 1]
+      const from = this.evaluate(previous, event.start)
+      this.moves.push({
+        start: event.start,
+        duration: event.duration,
+        ease: event.action.ease,
+        from,
+        target: this.resolveTarget(event.action, previous.target, from, event.tile),
+      })
+    })
+  }
+
+  // time（毫秒）时刻的摄像机状态
+  public getState(time: number): CameraState {
+    let low = 0
+    let high = this.moves.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (this.moves[mid].start <= time) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+    return this.evaluate(this.moves[low], time)
+  }
+
+  private evaluate(move: CameraMove, time: number): CameraState {
+    const progress = move.duration > 0 ? Math.min(Math.max((time - move.start) / move.duration, 0), 1) : 1
+    const t = ease(move.ease, progress)
+    const [anchorX, anchorY] = this.getAnchorPosition(move.target, time)
+    return {
+      x: lerp(move.from.x, anchorX + move.target.offset[0], t),
+      y: lerp(move.from.y, anchorY + move.target.offset[1], t),
+      rotation: lerp(move.from.rotation, move.target.rotation, t),
+      zoom: lerp(move.from.zoom, move.target.zoom, t),
+    }
+  }
+
+  // 跟随对象的位置；Player 沿当前砖块到下一块平滑移动，避免每次命中时跳动
+  private getAnchorPosition(target: CameraTarget, time: number): [number, number] {
+    switch (target.anchor) {
+      case "Tile":
+        return getTilePosition(this.level, target.tile)
+      case "Global":
+        return [0, 0]
+      default: {
+        const state = getOrbitState(this.timeline, time)
+        if (!state) return [0, 0]
+        const [x0, y0] = getTilePosition(this.level, state.tileIndex)
+        if (state.tileIndex >= this.timeline.length - 1) return [x0, y0]
+        const [x1, y1] = getTilePosition(this.level, state.tileIndex + 1)
+        return [lerp(x0, x1, state.progress), lerp(y0, y1, state.progress)]
+      }
+    }
+  }
+
+  // 事件中缺少的字段沿用上一次的目标；LastPosition 以当前摄像机位置为原点
+  private resolveTarget(
+    action: Record<string, any>,
+    previous: CameraTarget,
+    from: CameraState,
+    tileIndex: number,
+  ): CameraTarget {
+    const position: unknown[] = Array.isArray(action.position) ? action.position : []
+    const relativeTo = String(action.relativeTo ?? "")
+
+    if (relativeTo === "LastPosition" || relativeTo === "LastPositionNoRotation") {
+      return {
+        anchor: "Global",
+        tile: tileIndex,
+        offset: [from.x + toNumber(position[0], 0), from.y + toNumber(position[1], 0)],
+        rotation: toNumber(action.rotation, previous.rotation),
+        zoom: toNumber(action.zoom, previous.zoom),
+      }
+    }
+
+    const anchor = ANCHORS.includes(relativeTo as CameraAnchor) ? (relativeTo as CameraAnchor) : previous.anchor
+    return {
+      anchor,
+      tile: relativeTo === "Tile" ? tileIndex : previous.tile,
+      offset: [toNumber(position[0], previous.offset[0]), toNumber(position[1], previous.offset[1])],
+      rotation: toNumber(action.rotation, previous.rotation),
+      zoom: toNumber(action.zoom, previous.zoom),
+    }
+  }
+}
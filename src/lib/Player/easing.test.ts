@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { ease, EASE_NAMES, isEaseName } from "./easing"
+
+describe("ease", () => {
+  it.each(EASE_NAMES)("%s 从 0 开始到 1 结束", (name) => {
+    expect(ease(name, 0)).toBe(0)
+    expect(ease(name, 1)).toBe(1)
+  })
+
+  it("超出 0-1 的进度先截断", () => {
+    expect(ease("InQuad", -1)).toBe(0)
+    expect(ease("InQuad", 2)).toBe(1)
+  })
+
+  it("未知或缺省的名称按线性处理", () => {
+    expect(isEaseName("Unknown")).toBe(false)
+    expect(ease("Unknown", 0.3)).toBe(0.3)
+    expect(ease(undefined, 0.7)).toBe(0.7)
+  })
+
+  it("Linear 直接返回进度", () => {
+    for (const t of [0.1, 0.25, 0.5, 0.9]) {
+      expect(ease("Linear", t)).toBe(t)
+    }
+  })
+
+  // t = 0.25、0.5、0.75 处的参考值，按 DOTween 的公式与默认参数计算
+  it.each<[string, [number, number, number]]>([
+    ["InSine", [0.07612, 0.292893, 0.617317]],
+    ["OutSine", [0.382683, 0.707107, 0.92388]],
+    ["InOutSine", [0.146447, 0.5, 0.853553]],
+    ["InQuad", [0.0625, 0.25, 0.5625]],
+    ["OutQuad", [0.4375, 0.75, 0.9375]],
+    ["InOutCubic", [0.0625, 0.5, 0.9375]],
+    ["InQuart", [0.003906, 0.0625, 0.316406]],
+    ["OutQuint", [0.762695, 0.96875, 0.999023]],
+    ["InExpo", [0.005524, 0.03125, 0.176777]],
+    ["OutExpo", [0.823223, 0.96875, 0.994476]],
+    ["InCirc", [0.031754, 0.133975, 0.338562]],
+    ["OutCirc", [0.661438, 0.866025, 0.968246]],
+    ["InBack", [-0.064137, -0.087698, 0.18259]],
+    ["OutBack", [0.81741, 1.087697, 1.064137]],
+    ["InOutBack", [-0.099682, 0.5, 1.099682]],
+    ["InElastic", [-0.005524, -0.015625, 0.088388]],
+    ["OutElastic", [0.911612, 1.015625, 1.005524]],
+    ["InOutElastic", [0.011969, 0.5, 0.988031]],
+    ["InBounce", [0.027344, 0.234375, 0.527344]],
+    ["OutBounce", [0.472656, 0.765625, 0.972656]],
+    ["Flash", [0.25, 0.5, 0.75]],
+    ["InOutFlash", [0.25, 0.5, 0.75]],
+  ])("%s 的参考值", (name, expected) => {
+    ;[0.25, 0.5, 0.75].forEach((t, i) => {
+      expect(ease(name, t)).toBeCloseTo(expected[i], 5)
+    })
+  })
+})
@@ -0,0 +1,146 @@
+// 缓动曲线：ADOFAI 事件的 ease 字段（与 DOTween 的 Ease 同名），输入与输出均为 0-1 的进度
+
+export type EaseName =
+  | "Linear"
+  | "InSine"
+  | "OutSine"
+  | "InOutSine"
+  | "InQuad"
+  | "OutQuad"
+  | "InOutQuad"
+  | "InCubic"
+  | "OutCubic"
+  | "InOutCubic"
+  | "InQuart"
+  | "OutQuart"
+  | "InOutQuart"
+  | "InQuint"
+  | "OutQuint"
+  | "InOutQuint"
+  | "InExpo"
+  | "OutExpo"
+  | "InOutExpo"
+  | "InCirc"
+  | "OutCirc"
+  | "InOutCirc"
+  | "InElastic"
+  | "OutElastic"
+  | "InOutElastic"
+  | "InBack"
+  | "OutBack"
+  | "InOutBack"
+  | "InBounce"
+  | "OutBounce"
+  | "InOutBounce"
+  | "Flash"
+  | "InFlash"
+  | "OutFlash"
+  | "InOutFlash"
+
+export type EaseFunction = (t: number) => number
+
+// Back 的回弹幅度与 Elastic 的周期，取 DOTween 的默认值；InOut 版本按 DOTween 分别放大 1.525 与 1.5 倍
+const BACK_OVERSHOOT = 1.70158
+const ELASTIC_PERIOD = 0.3
+const IN_OUT_BACK_OVERSHOOT = BACK_OVERSHOOT * 1.525
+const IN_OUT_ELASTIC_PERIOD = ELASTIC_PERIOD * 1.5
+
+// 由 In 曲线派生 Out 与 InOut
+const toOut = (easeIn: EaseFunction): EaseFunction => (t) => 1 - easeIn(1 - t)
+const toInOut = (easeIn: EaseFunction): EaseFunction => (t) =>
+  t < 0.5 ? easeIn(t * 2) / 2 : 1 - easeIn((1 - t) * 2) / 2
+
+const inSine: EaseFunction = (t) => 1 - Math.cos((t * Math.PI) / 2)
+const inPower = (power: number): EaseFunction => (t) => t ** power
+const inExpo: EaseFunction = (t) => (t === 0 ? 0 : 2 ** (10 * (t - 1)))
+const inCirc: EaseFunction = (t) => 1 - Math.sqrt(1 - t * t)
+const inBack: EaseFunction = (t) => t * t * ((BACK_OVERSHOOT + 1) * t - BACK_OVERSHOOT)
+
+const inOutBack: EaseFunction = (t) => {
+  const s = IN_OUT_BACK_OVERSHOOT
+  if (t < 0.5) {
+    const u = t * 2
+    return (u * u * ((s + 1) * u - s)) / 2
+  }
+  const u = t * 2 - 2
+  return (u * u * ((s + 1) * u + s) + 2) / 2
+}
+
+const inElastic: EaseFunction = (t) => {
+  if (t === 0 || t === 1) return t
+  const shift = (ELASTIC_PERIOD / (2 * Math.PI)) * Math.asin(1)
+  return -(2 ** (10 * (t - 1))) * Math.sin(((t - 1 - shift) * (2 * Math.PI)) / ELASTIC_PERIOD)
+}
+
+// 前半段与后半段各按 InElastic 与 OutElastic 的形状振荡，周期为 IN_OUT_ELASTIC_PERIOD
+const inOutElastic: EaseFunction = (t) => {
+  if (t === 0 || t === 1) return t
+  const shift = IN_OUT_ELASTIC_PERIOD / 4
+  const u = t * 2 - 1
+  const wave = Math.sin(((u - shift) * (2 * Math.PI)) / IN_OUT_ELASTIC_PERIOD)
+  return u < 0 ? -0.5 * 2 ** (10 * u) * wave : 0.5 * 2 ** (-10 * u) * wave + 1
+}
+
+const outBounce: EaseFunction = (t) => {
+  if (t < 1 / 2.75) return 7.5625 * t * t
+  if (t < 2 / 2.75) return 7.5625 * (t -= 1.5 / 2.75) * t + 0.75
+  if (t < 2.5 / 2.75) return 7.5625 * (t -= 2.25 / 2.75) * t + 0.9375
+  return 7.5625 * (t -= 2.625 / 2.75) * t + 0.984375
+}
+const inBounce = toOut(outBounce)
+
+const EASES: Record<EaseName, EaseFunction> = {
+  Linear: (t) => t,
+  InSine: inSine,
+  OutSine: toOut(inSine),
+  InOutSine: toInOut(inSine),
+  InQuad: inPower(2),
+  OutQuad: toOut(inPower(2)),
+  InOutQuad: toInOut(inPower(2)),
+  InCubic: inPower(3),
+  OutCubic: toOut(inPower(3)),
+  InOutCubic: toInOut(inPower(3)),
+  InQuart: inPower(4),
+  OutQuart: toOut(inPower(4)),
+  InOutQuart: toInOut(inPower(4)),
+  InQuint: inPower(5),
+  OutQuint: toOut(inPower(5)),
+  InOutQuint: toInOut(inPower(5)),
+  InExpo: inExpo,
+  OutExpo: toOut(inExpo),
+  InOutExpo: toInOut(inExpo),
+  InCirc: inCirc,
+  OutCirc: toOut(inCirc),
+  InOutCirc: toInOut(inCirc),
+  InElastic: inElastic,
+  OutElastic: toOut(inElastic),
+  InOutElastic: inOutElastic,
+  InBack: inBack,
+  OutBack: toOut(inBack),
+  InOutBack: inOutBack,
+  InBounce: inBounce,
+  OutBounce: outBounce,
+  InOutBounce: toInOut(inBounce),
+  // DOTween 的 Flash 系列以 overshoot 为闪烁次数、period 为幂次，ADOFAI 事件中没有这两个参数，暂按线性处理
+  Flash: (t) => t,
+  InFlash: (t) => t,
+  OutFlash: (t) => t,
+  InOutFlash: (t) => t,
+}
+
+// 全部缓动名称，顺序与游戏编辑器中的列表一致
+export const EASE_NAMES = Object.keys(EASES) as EaseName[]
+
+export function isEaseName(value: unknown): value is EaseName {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(EASES, value)
+}
+
+/**
+ * 按 ease 计算缓动后的进度，t 超出 0-1 时先截断；未知或缺省的名称按线性处理
+ * Back、Elastic 的结果可能略超出 0-1；起点与终点精确返回 0 与 1，不受浮点误差影响
+ */
+export function ease(name: unknown, t: number): number {
+  const progress = Math.min(Math.max(t, 0), 1)
+  if (progress === 0 || progress === 1) return progress
+  return (isEaseName(name) ? EASES[name] : EASES.Linear)(progress)
+}
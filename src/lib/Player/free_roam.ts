@@ -0,0 +1,158 @@
+import type * as ADOFAI from "adofai"
+import { ease } from "./easing"
+import { getTilePosition, type TileTiming } from "./timeline"
+
+/**
+ * 自由移动段：FreeRoam 事件所在的砖块展开为 size 格的网格，持续 duration 拍
+ * 自动播放每拍沿蛇形路线走一格，最后 outTime 拍按 outEase 回到该砖块并落到下一块上，之后时间轴照常继续
+ */
+
+export interface FreeRoamSection {
+  tileIndex: number
+  // 网格第一格（左下角）的中心坐标与格数
+  origin: [number, number]
+  size: [number, number]
+  // 自动播放经过的位置，第 0 项为 FreeRoam 砖块本身
+  path: [number, number][]
+  // 开始时间与每拍时长（毫秒）
+  start: number
+  beat: number
+  // 自由移动的步数（每步一拍）与回到轨道所用的时间（毫秒）
+  steps: number
+  outDuration: number
+  outEase: unknown
+}
+
+// 自由移动段中某一时刻的状态
+export interface FreeRoamState {
+  // 中心星球的位置，领先的旋转星球的角度（弧度）
+  pivot: [number, number]
+  angle: number
+  // 已走过的步数，每走一步下一颗星球成为中心
+  step: number
+}
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const number = Number(value)
+  return value !== null && value !== undefined && Number.isFinite(number) ? number : fallback
+}
+
+const toVector = (value: unknown, fallback: [number, number]): [number, number] =>
+  Array.isArray(value) ? [toNumber(value[0], fallback[0]), toNumber(value[1], fallback[1])] : fallback
+
+// 砖块上的 FreeRoam 事件，duration 为 0 时视为没有
+export function getFreeRoamAction(tile: ADOFAI.Level["tiles"][number] | undefined): Record<string, any> | null {
+  const action = (tile?.actions || []).find((item) => item.eventType === "FreeRoam")
+  return action && toNumber(action.duration, 16) > 0 ? action : null
+}
+
+// 自由移动段的总拍数（包括 outTime）
+export function getFreeRoamBeats(action: Record<string, any>): number {
+  return Math.max(toNumber(action.duration, 16), 0)
+}
+
+/**
+ * 按时间轴收集所有自由移动段
+ * 步数取星球数量的整数倍，离开网格时的中心星球与时间轴中的编号一致，剩余的拍数并入回程
+ */
+export function buildFreeRoamSections(level: ADOFAI.Level, timeline: TileTiming[]): Map<number, FreeRoamSection> {
+  const sections = new Map<number, FreeRoamSection>()
+  ;(level?.tiles || []).forEach((tile, tileIndex) => {
+    const action = getFreeRoamAction(tile)
+    const timing = timeline[tileIndex]
+    if (!action || !timing) return
+
+    const [width, height] = toVector(action.size, [4, 4]).map((value) => Math.max(Math.round(value), 1))
+    const offset = toVector(action.positionOffset, [0, 0])
+    const [tileX, tileY] = getTilePosition(level, tileIndex)
+    const origin: [number, number] = [tileX + offset[0], tileY + offset[1]]
+
+    const beats = getFreeRoamBeats(action)
+    const outBeats = Math.min(Math.max(toNumber(action.outTime, 4), 0), beats)
+    const steps = Math.floor((beats - outBeats) / timing.planetCount) * timing.planetCount
+    const beat = 60000 / timing.bpm
+
+    sections.set(tileIndex, {
+      tileIndex,
+      origin,
+      size: [width, height],
+      path: buildPath([tileX, tileY], origin, width, height),
+      start: timing.time,
+      beat,
+      steps,
+      outDuration: (beats - steps) * beat,
+      outEase: action.outEase ?? "Linear",
+    })
+  })
+  return sections
+}
+
+// 蛇形遍历网格：逐行来回，从离砖块最近的一行开始
+function buildPath(start: [number, number], origin: [number, number], width: number, height: number): [number, number][] {
+  const path: [number, number][] = [start]
+  const fromTop = Math.abs(start[1] - (origin[1] + height - 1)) < Math.abs(start[1] - origin[1])
+  for (let row = 0; row < height; row++) {
+    const y = fromTop ? height - 1 - row : row
+    for (let column = 0; column < width; column++) {
+      const x = row % 2 === 0 ? column : width - 1 - column
+      const cell: [number, number] = [origin[0] + x, origin[1] + y]
+      const last = path[path.length - 1]
+      if (cell[0] !== last[0] || cell[1] !== last[1]) path.push(cell)
+    }
+  }
+  return path
+}
+
+// 第 step 步的终点：走到路线尽头后沿原路折返
+function getPathPoint(path: [number, number][], step: number): [number, number] {
+  if (path.length <= 1) return path[0]
+  const period = (path.length - 1) * 2
+  const position = step % period
+  return path[position < path.length ? position : period - position]
+}
+
+// 从 from 转到 to 所需的角度（弧度，0 到 2π，相同时为一整圈）
+function getSweep(from: number, to: number, isClockwise: boolean): number {
+  const delta = isClockwise ? from - to : to - from
+  const sweep = ((delta % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2)
+  return sweep === 0 ? Math.PI * 2 : sweep
+}
+
+/**
+ * time 时刻自由移动段中的星球状态
+ * 每步中心星球不动，旋转星球从上一格的方向转到下一格的方向；相邻两点不相距一格时中心星球顺着方向滑过多出的距离
+ */
+export function getFreeRoamState(section: FreeRoamSection, timing: TileTiming, exitAngle: number, time: number): FreeRoamState {
+  const elapsed = Math.max(time - section.start, 0)
+  const { path, steps, beat } = section
+  const step = Math.min(Math.floor(elapsed / beat), steps)
+  const angleTo = (from: [number, number], to: [number, number]): number => Math.atan2(to[1] - from[1], to[0] - from[0])
+
+  // 第 step 步开始时的中心位置与旋转星球的角度
+  const pivot = getPathPoint(path, step)
+  const startAngle = step === 0 ? timing.startAngle : angleTo(pivot, getPathPoint(path, step - 1))
+
+  if (step < steps) {
+    const t = elapsed / beat - step
+    const target = getPathPoint(path, step + 1)
+    const endAngle = angleTo(pivot, target)
+    const slide = Math.max(Math.hypot(target[0] - pivot[0], target[1] - pivot[1]) - 1, 0) * t
+    const sign = timing.isClockwise ? -1 : 1
+    return {
+      pivot: [pivot[0] + Math.cos(endAngle) * slide, pivot[1] + Math.sin(endAngle) * slide],
+      angle: startAngle + sign * getSweep(startAngle, endAngle, timing.isClockwise) * t,
+      step,
+    }
+  }
+
+  // 回程：中心星球回到 FreeRoam 砖块，旋转星球转向下一块
+  const outElapsed = elapsed - steps * beat
+  const t = ease(section.outEase, section.outDuration > 0 ? Math.min(outElapsed / section.outDuration, 1) : 1)
+  const [homeX, homeY] = path[0]
+  const sign = timing.isClockwise ? -1 : 1
+  return {
+    pivot: [pivot[0] + (homeX - pivot[0]) * t, pivot[1] + (homeY - pivot[1]) * t],
+    angle: startAngle + sign * getSweep(startAngle, exitAngle, timing.isClockwise) * t,
+    step,
+  }
+}
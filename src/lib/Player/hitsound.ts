@@ -0,0 +1,250 @@
+import type * as ADOFAI from "adofai"
+import type { SongPlayer } from "./audio"
+import { requiresHit, type TileTiming } from "./timeline"
+
+// 打击音：内置合成音色，无需加载外部音频即可离线使用
+
+type HitsoundVoice = "kick" | "hat" | "snare" | "clap" | "click" | "rise" | "fall"
+
+// ADOFAI 的打击音名称到合成音色的映射
+const HITSOUND_VOICES: Record<string, HitsoundVoice> = {
+  Kick: "kick",
+  KickChroma: "kick",
+  KickHouse: "kick",
+  KickRupture: "kick",
+  Hat: "hat",
+  HatHouse: "hat",
+  Shaker: "hat",
+  ShakerLoud: "hat",
+  Sizzle: "hat",
+  Chuck: "snare",
+  SnareAcoustic2: "snare",
+  SnareHouse: "snare",
+  SnareVapor: "snare",
+  Hammer: "snare",
+  ClapHit: "clap",
+  ClapHitEcho: "clap",
+  ReverbClap: "clap",
+  Sidestick: "click",
+  Stick: "click",
+  ReverbClack: "click",
+  Squareshot: "click",
+  FireTile: "click",
+  IceTile: "click",
+  PowerUp: "rise",
+  VehiclePositive: "rise",
+  PowerDown: "fall",
+  VehicleNegative: "fall",
+}
+
+// 每个砖块命中时要播放的打击音
+export interface HitsoundEvent {
+  tileIndex: number
+  // 命中时间（毫秒，与时间轴一致）
+  time: number
+  hitsound: string
+  // 0-100
+  volume: number
+}
+
+// 调度的提前量（毫秒）
+const SCHEDULE_AHEAD = 200
+
+/**
+ * 根据设置和 SetHitsound 事件计算每个砖块的打击音
+ * SetHitsound 的 gameSound 为 Midspin 时只影响中旋砖块
+ */
+export function buildHitsounds(level: ADOFAI.Level, timeline: TileTiming[]): HitsoundEvent[] {
+  const settings = level.settings || {}
+  const tap = {
+    hitsound: (settings.hitsound as string) || "Kick",
+    volume: (settings.hitsoundVolume as number) ?? 100,
+  }
+  const midspin = { ...tap }
+  const events: HitsoundEvent[] = []
+
+  timeline.forEach((timing) => {
+    const actions = level.tiles[timing.index]?.actions || []
+    for (const action of actions) {
+      if (action.eventType !== "SetHitsound") continue
+      const target = action.gameSound === "Midspin" ? midspin : tap
+      target.hitsound = action.hitsound ?? target.hitsound
+      target.volume = action.hitsoundVolume ?? target.volume
+    }
+
+    if (!requiresHit(timeline, timing.index)) return
+
+    const sound = timing.isMidspin ? midspin : tap
+    if (sound.hitsound === "None" || sound.volume <= 0) return
+
+    events.push({
+      tileIndex: timing.index,
+      time: timing.time,
+      hitsound: sound.hitsound,
+      volume: sound.volume,
+    })
+  })
+
+  return events
+}
+
+/**
+ * 按播放时钟提前把打击音预约到 Web Audio 时间线上
+ * 每帧只调度接下来一小段时间内的声音，长谱面也不会一次创建大量节点
+ */
+export class HitsoundScheduler {
+  private events: HitsoundEvent[] = []
+  private nextIndex = 0
+  private offset = 0
+  private noiseBuffer: AudioBuffer | null = null
+  private scheduledNodes: Array<{ node: AudioScheduledSourceNode; endTime: number }> = []
+
+  constructor(private songPlayer: SongPlayer) {}
+
+  /**
+   * 开始调度，offset 为第 0 块在歌曲中的位置，fromTile 及之前砖块的打击音会被跳过
+   */
+  public start(events: HitsoundEvent[], offset: number, fromTile = 0): void {
+    this.stop()
+    this.events = events
+    this.offset = offset
+    this.nextIndex = events.findIndex((event) => event.tileIndex > fromTile)
+    if (this.nextIndex < 0) this.nextIndex = events.length
+  }
+
+  public update(): void {
+    const context = this.songPlayer.getContext()
+    if (!context || !this.songPlayer.isPlaying()) return
+
+    const horizon = this.songPlayer.getPosition() + SCHEDULE_AHEAD
+    while (this.nextIndex < this.events.length) {
+      const event = this.events[this.nextIndex]
+      const position = this.offset + event.time
+      if (position > horizon) break
+
+      const when = Math.max(this.songPlayer.getClockTimeAt(position), context.currentTime)
+      this.playHitsound(context, event.hitsound, event.volume, when)
+      this.nextIndex++
+    }
+
+    // 清理已经播放完的节点
+    this.scheduledNodes = this.scheduledNodes.filter((item) => item.endTime > context.currentTime)
+  }
+
+  public stop(): void {
+    this.scheduledNodes.forEach(({ node }) => {
+      try {
+        node.stop()
+      } catch {
+        // 节点可能已经结束
+      }
+    })
+    this.scheduledNodes = []
+    this.events = []
+    this.nextIndex = 0
+  }
+
+  /**
+   * 在 when（音频时钟，秒）播放一次打击音，volume 为 0-100
+   */
+  public playHitsound(context: AudioContext, hitsound: string, volume: number, when: number): void {
+    const voice = HITSOUND_VOICES[hitsound] || "kick"
+    const output = context.createGain()
+    output.gain.value = Math.min(volume, 200) / 100
+    output.connect(context.destination)
+
+    switch (voice) {
+      case "kick": {
+        const osc = context.createOscillator()
+        const gain = context.createGain()
+        osc.frequency.setValueAtTime(150, when)
+        osc.frequency.exponentialRampToValueAtTime(45, when + 0.12)
+        gain.gain.setValueAtTime(1, when)
+        gain.gain.exponentialRampToValueAtTime(0.001, when + 0.15)
+        osc.connect(gain).connect(output)
+        this.track(osc, when, 0.15)
+        break
+      }
+      case "hat":
+        this.playNoise(context, output, when, 0.05, "highpass", 7000, 0.6)
+        break
+      case "snare": {
+        this.playNoise(context, output, when, 0.12, "bandpass", 1800, 0.8)
+        const osc = context.createOscillator()
+        const gain = context.createGain()
+        osc.type = "triangle"
+        osc.frequency.setValueAtTime(180, when)
+        gain.gain.setValueAtTime(0.5, when)
+        gain.gain.exponentialRampToValueAtTime(0.001, when + 0.08)
+        osc.connect(gain).connect(output)
+        this.track(osc, when, 0.08)
+        break
+      }
+      case "clap":
+        // 三次快速的噪声爆发
+        for (let i = 0; i < 3; i++) {
+          this.playNoise(context, output, when + i * 0.01, i === 2 ? 0.1 : 0.02, "bandpass", 1200, 0.8)
+        }
+        break
+      case "click":
+      case "rise":
+      case "fall": {
+        const osc = context.createOscillator()
+        const gain = context.createGain()
+        const length = voice === "click" ? 0.04 : 0.12
+        osc.type = "square"
+        osc.frequency.setValueAtTime(voice === "fall" ? 1200 : 800, when)
+        if (voice !== "click") {
+          osc.frequency.exponentialRampToValueAtTime(voice === "rise" ? 1600 : 400, when + length)
+        }
+        gain.gain.setValueAtTime(0.3, when)
+        gain.gain.exponentialRampToValueAtTime(0.001, when + length)
+        osc.connect(gain).connect(output)
+        this.track(osc, when, length)
+        break
+      }
+    }
+  }
+
+  private playNoise(
+    context: AudioContext,
+    output: AudioNode,
+    when: number,
+    length: number,
+    filterType: BiquadFilterType,
+    frequency: number,
+    level: number,
+  ): void {
+    const source = context.createBufferSource()
+    source.buffer = this.getNoiseBuffer(context)
+
+    const filter = context.createBiquadFilter()
+    filter.type = filterType
+    filter.frequency.value = frequency
+
+    const gain = context.createGain()
+    gain.gain.setValueAtTime(level, when)
+    gain.gain.exponentialRampToValueAtTime(0.001, when + length)
+
+    source.connect(filter).connect(gain).connect(output)
+    this.track(source, when, length)
+  }
+
+  private getNoiseBuffer(context: AudioContext): AudioBuffer {
+    if (this.noiseBuffer && this.noiseBuffer.sampleRate === context.sampleRate) return this.noiseBuffer
+
+    const buffer = context.createBuffer(1, Math.floor(context.sampleRate * 0.2), context.sampleRate)
+    const data = buffer.getChannelData(0)
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1
+    }
+    this.noiseBuffer = buffer
+    return buffer
+  }
+
+  private track(node: AudioScheduledSourceNode, when: number, length: number): void {
+    node.start(when)
+    node.stop(when + length)
+    this.scheduledNodes.push({ node, endTime: when + length })
+  }
+}
@@ -0,0 +1,52 @@
+import type * as ADOFAI from "adofai"
+
+// 长按砖块：Hold 事件让星球在砖块上额外旋转 duration 圈，同时中心星球沿长条滑到末端再继续前往下一块
+
+// 中旋砖块没有出口方向，不能长按
+const MIDSPIN_ANGLE = 999
+
+// 每圈两拍，按每拍一格计算，长条每圈延长两格
+const HOLD_TILES_PER_ROTATION = 2
+
+export interface HoldInfo {
+  // 额外旋转的圈数
+  rotations: number
+  // 长条比普通砖块多出的长度（格）
+  length: number
+}
+
+/**
+ * 读取砖块上的 Hold 事件，没有或圈数为 0 时返回 null
+ * distanceMultiplier 为百分比，只影响长条长度，不影响时间
+ */
+export function getHold(tile: ADOFAI.Level["tiles"][number] | undefined): HoldInfo | null {
+  if (!tile || tile.direction === MIDSPIN_ANGLE) return null
+  const action = (tile.actions || []).find((item) => item.eventType === "Hold")
+  if (!action) return null
+
+  const rotations = Math.max(Number(action.duration) || 0, 0)
+  if (rotations === 0) return null
+  const multiplier = Number(action.distanceMultiplier ?? 100)
+  const distance = Number.isFinite(multiplier) ? Math.max(multiplier, 0) / 100 : 1
+  return { rotations, length: rotations * HOLD_TILES_PER_ROTATION * distance }
+}
+
+/**
+ * 在 calculateTileCoordinates 之后调用：长按砖块之后的砖块沿出口方向后移长条的长度
+ * 第 n 块使用 tiles[n - 1].position，因此第 i 块的长条从 tiles[i].position 开始生效
+ */
+export function applyHoldLayout(level: ADOFAI.Level): void {
+  let offsetX = 0
+  let offsetY = 0
+  ;(level.tiles || []).forEach((tile) => {
+    const hold = getHold(tile)
+    if (hold) {
+      const radians = ((tile.direction ?? 0) * Math.PI) / 180
+      offsetX += Math.cos(radians) * hold.length
+      offsetY += Math.sin(radians) * hold.length
+    }
+    if (tile.position && (offsetX !== 0 || offsetY !== 0)) {
+      tile.position = [tile.position[0] + offsetX, tile.position[1] + offsetY]
+    }
+  })
+}
@@ -0,0 +1,85 @@
+import type * as ADOFAI from "adofai"
+import { describe, expect, it } from "vitest"
+import { errorToAngle, judgeAngle, JudgementTracker } from "./judgement"
+import { buildTimeline } from "./timeline"
+
+// 60 BPM 的直线轨道：每拍 1000 毫秒、180 度，第 n 块在 n * 1000 毫秒命中
+function createStraightTimeline(length: number) {
+  const tiles = Array.from({ length }, () => ({ direction: 0, actions: [] }))
+  return buildTimeline({ tiles, settings: { bpm: 60 } } as unknown as ADOFAI.Level)
+}
+
+// 60 BPM 下角度误差对应的毫秒数
+const angleToMs = (angle: number): number => (angle / 180) * 1000
+
+describe("errorToAngle", () => {
+  it("每拍对应 180 度", () => {
+    expect(errorToAngle(1000, 60)).toBe(180)
+    expect(errorToAngle(250, 120)).toBe(90)
+    expect(errorToAngle(-500, 60)).toBe(-90)
+  })
+})
+
+describe("judgeAngle", () => {
+  it.each([
+    [0, "Perfect"],
+    [30, "Perfect"],
+    [-30, "Perfect"],
+    [30.01, "LPerfect"],
+    [-30.01, "EPerfect"],
+    [45, "LPerfect"],
+    [-45, "EPerfect"],
+    [45.01, "VeryLate"],
+    [-45.01, "VeryEarly"],
+    [60, "VeryLate"],
+    [-60, "VeryEarly"],
+    [60.01, "TooLate"],
+    [-60.01, "TooEarly"],
+  ])("%f 度判定为 %s", (angle, judgement) => {
+    expect(judgeAngle(angle)).toBe(judgement)
+  })
+})
+
+describe("JudgementTracker", () => {
+  it("TooEarly 不消耗砖块，之后的按键仍判定同一块", () => {
+    const tracker = new JudgementTracker(createStraightTimeline(4))
+
+    expect(tracker.press(1000 - angleToMs(90))).toMatchObject({ judgement: "TooEarly", tileIndex: 1 })
+    expect(tracker.press(1000)).toMatchObject({ judgement: "Perfect", tileIndex: 1 })
+    expect(tracker.press(2000)).toMatchObject({ judgement: "Perfect", tileIndex: 2 })
+  })
+
+  it("超过 60 度仍未按键时判定为 TooLate 并前往下一块", () => {
+    const tracker = new JudgementTracker(createStraightTimeline(4))
+
+    expect(tracker.update(1000 + angleToMs(55))).toEqual([])
+    const missed = tracker.update(1000 + angleToMs(70))
+    expect(missed.map((result) => [result.judgement, result.tileIndex])).toEqual([["TooLate", 1]])
+    expect(tracker.press(2000)).toMatchObject({ judgement: "Perfect", tileIndex: 2 })
+  })
+
+  it("一次更新可以错过多块", () => {
+    const tracker = new JudgementTracker(createStraightTimeline(4))
+    expect(tracker.update(3000 + angleToMs(70)).map((result) => result.tileIndex)).toEqual([1, 2, 3])
+  })
+
+  it("按权重计算准确率，TooEarly 不计入", () => {
+    const tracker = new JudgementTracker(createStraightTimeline(6))
+
+    tracker.press(1000)
+    tracker.press(2000 - angleToMs(40))
+    tracker.press(3000 - angleToMs(100))
+    tracker.press(3000 + angleToMs(50))
+    tracker.update(4000 + angleToMs(70))
+
+    const summary = tracker.getSummary()
+    expect(summary.counts).toMatchObject({ Perfect: 1, EPerfect: 1, TooEarly: 1, VeryLate: 1, TooLate: 1 })
+    expect(summary.total).toBe(4)
+    // (1 + 0.75 + 0.4 + 0) / 4
+    expect(summary.accuracy).toBeCloseTo(53.75, 10)
+  })
+
+  it("没有判定时准确率为 100", () => {
+    expect(new JudgementTracker(createStraightTimeline(3)).getSummary().accuracy).toBe(100)
+  })
+})
@@ -0,0 +1,151 @@
+import { requiresHit, type TileTiming } from "./timeline"
+
+// 按键判定：把按键时间与砖块命中时间比较，按 ADOFAI 的角度窗口给出判定
+
+export type Judgement = "TooEarly" | "VeryEarly" | "EPerfect" | "Perfect" | "LPerfect" | "VeryLate" | "TooLate"
+
+export const JUDGEMENTS: Judgement[] = ["TooEarly", "VeryEarly", "EPerfect", "Perfect", "LPerfect", "VeryLate", "TooLate"]
+
+// 判定窗口（度），对应 ADOFAI 普通难度
+const PERFECT_ANGLE = 30
+const NEAR_PERFECT_ANGLE = 45
+const COUNTED_ANGLE = 60
+
+export const JUDGEMENT_COLORS: Record<Judgement, string> = {
+  TooEarly: "#ef4444",
+  VeryEarly: "#f97316",
+  EPerfect: "#facc15",
+  Perfect: "#4ade80",
+  LPerfect: "#facc15",
+  VeryLate: "#f97316",
+  TooLate: "#ef4444",
+}
+
+// 准确率权重（TooEarly 不消耗砖块，不计入准确率）
+const JUDGEMENT_WEIGHTS: Record<Judgement, number> = {
+  TooEarly: 0,
+  VeryEarly: 0.4,
+  EPerfect: 0.75,
+  Perfect: 1,
+  LPerfect: 0.75,
+  VeryLate: 0.4,
+  TooLate: 0,
+}
+
+export interface JudgementResult {
+  judgement: Judgement
+  tileIndex: number
+  // 角度误差（度），负数表示偏早
+  angle: number
+}
+
+export interface JudgementSummary {
+  counts: Record<Judgement, number>
+  // 计入准确率的判定数
+  total: number
+  // 0-100
+  accuracy: number
+}
+
+// 时间误差转换为角度误差：每拍 180 度
+export function errorToAngle(errorMs: number, bpm: number): number {
+  return (errorMs / (60000 / bpm)) * 180
+}
+
+export function judgeAngle(angle: number): Judgement {
+  const abs = Math.abs(angle)
+  if (abs <= PERFECT_ANGLE) return "Perfect"
+  if (abs <= NEAR_PERFECT_ANGLE) return angle < 0 ? "EPerfect" : "LPerfect"
+  if (abs <= COUNTED_ANGLE) return angle < 0 ? "VeryEarly" : "VeryLate"
+  return angle < 0 ? "TooEarly" : "TooLate"
+}
+
+/**
+ * 记录一次游玩的判定
+ */
+export class JudgementTracker {
+  private nextTile = 0
+  private counts: Record<Judgement, number> = createCounts()
+
+  constructor(private timeline: TileTiming[], startTile = 0) {
+    this.seek(startTile)
+  }
+
+  // 从 tileIndex 之后的砖块继续判定，已有的统计保留
+  public seek(tileIndex: number): void {
+    this.nextTile = this.findNextTile(tileIndex + 1)
+  }
+
+  /**
+   * 处理一次按键，time 为轨道时间（毫秒）
+   * 太早的按键不会消耗砖块
+   */
+  public press(time: number): JudgementResult | null {
+    const target = this.timeline[this.nextTile]
+    if (!target) return null
+
+    const angle = this.getAngle(target, time)
+    const judgement = judgeAngle(angle)
+    this.counts[judgement]++
+    if (judgement !== "TooEarly") {
+      this.nextTile = this.findNextTile(this.nextTile + 1)
+    }
+    return { judgement, tileIndex: target.index, angle }
+  }
+
+  /**
+   * 每帧调用，返回错过的砖块（TooLate）
+   */
+  public update(time: number): JudgementResult[] {
+    const missed: JudgementResult[] = []
+    for (;;) {
+      const target = this.timeline[this.nextTile]
+      if (!target) break
+
+      const angle = this.getAngle(target, time)
+      if (angle <= COUNTED_ANGLE) break
+
+      this.counts.TooLate++
+      missed.push({ judgement: "TooLate", tileIndex: target.index, angle })
+      this.nextTile = this.findNextTile(this.nextTile + 1)
+    }
+    return missed
+  }
+
+  public getSummary(): JudgementSummary {
+    let total = 0
+    let score = 0
+    JUDGEMENTS.forEach((judgement) => {
+      if (judgement === "TooEarly") return
+      total += this.counts[judgement]
+      score += this.counts[judgement] * JUDGEMENT_WEIGHTS[judgement]
+    })
+    return {
+      counts: { ...this.counts },
+      total,
+      accuracy: total > 0 ? (score / total) * 100 : 100,
+    }
+  }
+
+  // 判定使用驶向目标砖块那一段的 BPM
+  private getAngle(target: TileTiming, time: number): number {
+    const bpm = this.timeline[target.index - 1]?.bpm ?? target.bpm
+    return errorToAngle(time - target.time, bpm)
+  }
+
+  private findNextTile(from: number): number {
+    let index = from
+    while (index < this.timeline.length && !requiresHit(this.timeline, index)) {
+      index++
+    }
+    return index
+  }
+}
+
+function createCounts(): Record<Judgement, number> {
+  const counts = {} as Record<Judgement, number>
+  JUDGEMENTS.forEach((judgement) => {
+    counts[judgement] = 0
+  })
+  return counts
+}
@@ -0,0 +1,66 @@
+// 关卡文件夹处理：从多选文件或拖入的文件夹中找出关卡与其附带的资源文件
+
+const LEVEL_EXTENSIONS = [".adofai", ".json"]
+
+const getBaseName = (path: string): string => path.split(/[\\/]/).pop()?.toLowerCase() || ""
+
+export function isLevelFile(file: File): boolean {
+  const name = file.name.toLowerCase()
+  return LEVEL_EXTENSIONS.some((ext) => name.endsWith(ext))
+}
+
+// 优先选择 .adofai 文件，其次是 .json
+export function findLevelFile(files: File[]): File | undefined {
+  return files.find((file) => file.name.toLowerCase().endsWith(".adofai")) || files.find(isLevelFile)
+}
+
+/**
+ * 按文件名查找关卡引用的资源（songFilename、图片等），忽略大小写与目录
+ */
+export function findFileByName(files: File[], name: string | undefined): File | undefined {
+  if (!name) return undefined
+  const target = getBaseName(name)
+  return files.find((file) => getBaseName(file.name) === target)
+}
+
+/**
+ * 读取拖入的文件，文件夹会被递归展开
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries: FileSystemEntry[] = []
+  for (let i = 0; i < dataTransfer.items.length; i++) {
+    const entry = dataTransfer.items[i].webkitGetAsEntry?.()
+    if (entry) entries.push(entry)
+  }
+
+  // 浏览器不支持 entry API 时直接使用文件列表
+  if (entries.length === 0) {
+    return Array.prototype.slice.call(dataTransfer.files)
+  }
+
+  const files: File[] = []
+  for (const entry of entries) {
+    await readEntry(entry, files)
+  }
+  return files
+}
+
+async function readEntry(entry: FileSystemEntry, files: File[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+    files.push(file)
+    return
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader()
+    // readEntries 每次只返回一部分，需要读到空为止
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+      if (batch.length === 0) break
+      for (const child of batch) {
+        await readEntry(child, files)
+      }
+    }
+  }
+}
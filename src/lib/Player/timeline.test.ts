@@ -0,0 +1,113 @@
+import type * as ADOFAI from "adofai"
+import { describe, expect, it } from "vitest"
+import { buildTimeline, findTileAtTime, getOrbitState, MIDSPIN_ANGLE, requiresHit } from "./timeline"
+
+type TestAction = Record<string, unknown>
+
+/**
+ * 按方向（度）构造关卡，actions 的键为砖块编号
+ * 默认 60 BPM：每拍 1000 毫秒、180 度
+ */
+function createLevel(directions: number[], actions: Record<number, TestAction[]> = {}, bpm = 60): ADOFAI.Level {
+  const tiles = directions.map((direction, index) => ({ direction, actions: actions[index] || [] }))
+  return { tiles, settings: { bpm } } as unknown as ADOFAI.Level
+}
+
+const times = (level: ADOFAI.Level): number[] => buildTimeline(level).map((timing) => timing.time)
+
+describe("buildTimeline", () => {
+  it("普通砖块按相对角度计时，直线为一拍，0 度视为一整圈", () => {
+    expect(times(createLevel([0, 0, 90, 180, 180]))).toEqual([0, 1000, 2000, 2500, 3000])
+    expect(times(createLevel([0, 270, 270]))).toEqual([0, 1000, 2500])
+    // 折返（相对角度 0）转一整圈
+    expect(times(createLevel([0, 180, 0]))).toEqual([0, 1000, 3000])
+  })
+
+  it("中旋砖块不占时间，之后的砖块从中旋前的方向转过来", () => {
+    const timeline = buildTimeline(createLevel([0, MIDSPIN_ANGLE, 180, 180]))
+    expect(timeline.map((timing) => timing.time)).toEqual([0, 1000, 1000, 2000])
+    expect(timeline[1].isMidspin).toBe(true)
+    expect(requiresHit(timeline, 1)).toBe(true)
+    expect(requiresHit(timeline, 2)).toBe(false)
+  })
+
+  it("Twirl 之后逆时针旋转", () => {
+    const timeline = buildTimeline(createLevel([0, 90, 90], { 1: [{ eventType: "Twirl" }] }))
+    expect(timeline.map((timing) => timing.isClockwise)).toEqual([true, false, false])
+    expect(timeline.map((timing) => timing.time)).toEqual([0, 1000, 2500])
+  })
+
+  it("SetSpeed 从所在砖块开始改变 BPM", () => {
+    const bpm = createLevel([0, 0, 0, 0], { 1: [{ eventType: "SetSpeed", speedType: "Bpm", beatsPerMinute: 120 }] })
+    expect(times(bpm)).toEqual([0, 1000, 1500, 2000])
+
+    const multiplier = createLevel([0, 0, 0, 0], {
+      2: [{ eventType: "SetSpeed", speedType: "Multiplier", bpmMultiplier: 0.5 }],
+    })
+    expect(times(multiplier)).toEqual([0, 1000, 2000, 4000])
+  })
+
+  it("Pause 每拍增加 180 度", () => {
+    expect(times(createLevel([0, 0, 0], { 1: [{ eventType: "Pause", duration: 2 }] }))).toEqual([0, 1000, 4000])
+  })
+
+  it("Hold 每圈增加 360 度，并记录长条长度", () => {
+    const timeline = buildTimeline(createLevel([0, 0, 0], { 1: [{ eventType: "Hold", duration: 1, distanceMultiplier: 100 }] }))
+    expect(timeline.map((timing) => timing.time)).toEqual([0, 1000, 4000])
+    expect(timeline[1].holdSweep).toBeCloseTo(Math.PI * 2, 10)
+    expect(timeline[1].holdLength).toBe(2)
+    expect(timeline[2].holdSweep).toBe(0)
+  })
+
+  it("FreeRoam 的时长按拍计算，取代本块原有的旋转", () => {
+    const level = createLevel([0, 90, 0], { 1: [{ eventType: "FreeRoam", duration: 8, outTime: 4 }] })
+    expect(times(level)).toEqual([0, 1000, 9000])
+  })
+
+  it("MultiPlanet 时领先的星球超前一个内角，中心星球依次轮换", () => {
+    const timeline = buildTimeline(
+      createLevel([0, 0, 0, 0, 0], { 1: [{ eventType: "MultiPlanet", planets: "ThreePlanets" }] }),
+    )
+    expect(timeline.map((timing) => timing.planetCount)).toEqual([2, 3, 3, 3, 3])
+    expect(timeline.map((timing) => timing.pivot)).toEqual([0, 1, 2, 0, 1])
+    // 三颗星球的内角为 60 度：直线只需转 120 度
+    expect(timeline[2].time - timeline[1].time).toBeCloseTo(2000 / 3, 10)
+    expect(timeline[1].startAngle).toBeCloseTo((120 * Math.PI) / 180, 10)
+  })
+})
+
+describe("findTileAtTime", () => {
+  const timeline = buildTimeline(createLevel([0, MIDSPIN_ANGLE, 180, 180]))
+
+  it("返回最后一个命中时间不晚于 time 的砖块", () => {
+    expect(findTileAtTime(timeline, -100)).toBe(0)
+    expect(findTileAtTime(timeline, 999)).toBe(0)
+    // 中旋与之后的砖块同时命中，取后者
+    expect(findTileAtTime(timeline, 1000)).toBe(2)
+    expect(findTileAtTime(timeline, 5000)).toBe(3)
+  })
+})
+
+describe("getOrbitState", () => {
+  it("按时间比例转过本块的角度", () => {
+    const timeline = buildTimeline(createLevel([0, 0, 0]))
+    const state = getOrbitState(timeline, 1500)!
+    expect(state.tileIndex).toBe(1)
+    expect(state.progress).toBe(0.5)
+    // 从 180 度顺时针转过一半
+    expect(state.angle).toBeCloseTo(Math.PI / 2, 10)
+    expect(state.holdProgress).toBe(0)
+  })
+
+  it("长按砖块上先转完额外的圈数，中心星球在此期间滑过长条", () => {
+    const timeline = buildTimeline(createLevel([0, 0, 0], { 1: [{ eventType: "Hold", duration: 1 }] }))
+    expect(getOrbitState(timeline, 2000)!.holdProgress).toBeCloseTo(0.5, 10)
+    expect(getOrbitState(timeline, 3500)!.holdProgress).toBe(1)
+  })
+
+  it("最后一块停止旋转，空时间轴返回 null", () => {
+    const timeline = buildTimeline(createLevel([0, 0]))
+    expect(getOrbitState(timeline, 5000)!.progress).toBe(0)
+    expect(getOrbitState([], 0)).toBeNull()
+  })
+})
@@ -0,0 +1,271 @@
+import type * as ADOFAI from "adofai"
+import { ease } from "./easing"
+import { getFreeRoamAction, getFreeRoamBeats } from "./free_roam"
+import { getHold } from "./hold"
+
+// 中旋砖块在 angleData 中的特殊角度
+export const MIDSPIN_ANGLE = 999
+
+// 每个砖块的预计算时间信息
+export interface TileTiming {
+  index: number
+  // 命中该砖块的时间（毫秒，第 0 块为 0）
+  time: number
+  // 从该砖块转到下一块所需的时间（毫秒）
+  duration: number
+  bpm: number
+  // 领先的旋转星球离开该砖块时的起始角度（弧度）
+  startAngle: number
+  // 本块需要转过的角度（弧度，包含 Pause 与 Hold 的额外旋转）
+  sweep: number
+  // Hold 额外旋转的角度（弧度）与长条多出的长度（格），星球先转完这部分再前往下一块
+  holdSweep: number
+  holdLength: number
+  isClockwise: boolean
+  isMidspin: boolean
+  // 星球在本块内旋转的缓动，来自 settings.planetEase 或之前的 SetPlanetRotation
+  planetEase: PlanetEase
+  // 本块的星球数量（MultiPlanet）与作为中心的星球编号
+  planetCount: number
+  pivot: number
+}
+
+/**
+ * 星球旋转的缓动：一块内的旋转分成 parts 段，每段使用 ease
+ * Mirror 时偶数段（从 0 开始计）正放、奇数段倒放，Repeat 时每段都正放
+ */
+export interface PlanetEase {
+  ease: unknown
+  parts: number
+  behavior: "Mirror" | "Repeat"
+}
+
+// 某一时刻星球所处的状态
+export interface OrbitState {
+  tileIndex: number
+  // 本块内经过的时间比例 0-1（未经星球缓动）
+  progress: number
+  // 领先的旋转星球当前的角度（弧度）
+  angle: number
+  // 中心星球沿长按长条滑过的比例 0-1，不是长按砖块时为 0
+  holdProgress: number
+}
+
+const normalizeAngle = (v: number): number => ((v % 360) + 360) % 360
+
+// MultiPlanet 的 planets 字段对应的星球数量，也接受直接填写的数字
+const PLANET_COUNTS: Record<string, number> = { TwoPlanets: 2, ThreePlanets: 3 }
+
+/**
+ * 多星球排成边长为轨道半径的正多边形，中心星球在其中一个顶点上
+ * 领先的星球比上一块的方向超前一个内角（度），两颗星球时为 0
+ */
+export function getPlanetInteriorAngle(count: number): number {
+  return 180 - 360 / Math.max(count, 2)
+}
+
+/**
+ * 获取砖块的世界坐标
+ * 与渲染保持一致：第 0 块位于原点，第 n 块使用 tiles[n - 1].position
+ */
+export function getTilePosition(level: ADOFAI.Level, index: number): [number, number] {
+  if (index <= 0) return [0, 0]
+  const position = level.tiles[index - 1]?.position
+  return position ? [position[0], position[1]] : [0, 0]
+}
+
+/**
+ * 预计算整条轨道的时间轴
+ * 由 angleData（direction）、settings.bpm 以及 SetSpeed、Twirl、Pause、Hold、FreeRoam、MultiPlanet 事件推导
+ */
+export function buildTimeline(level: ADOFAI.Level): TileTiming[] {
+  const tiles = level.tiles || []
+  const timeline: TileTiming[] = []
+
+  let bpm: number = level.settings?.bpm || 120
+  let isClockwise = true
+  let time = 0
+  const settings: Record<string, any> = level.settings || {}
+  let planetEase = readPlanetEase(settings.planetEase, settings.planetEaseParts, settings.planetEasePartBehavior)
+  let planetCount = 2
+  let pivot = 0
+
+  for (let i = 0; i < tiles.length; i++) {
+    const direction = tiles[i].direction ?? 0
+    const actions = tiles[i].actions || []
+
+    for (const action of actions) {
+      if (action.eventType === "SetSpeed") {
+        if (action.speedType === "Multiplier") {
+          bpm *= action.bpmMultiplier || 1
+        } else {
+          bpm = action.beatsPerMinute || bpm
+        }
+      } else if (action.eventType === "Twirl") {
+        isClockwise = !isClockwise
+      } else if (action.eventType === "SetPlanetRotation") {
+        planetEase = readPlanetEase(action.ease, action.easeParts, action.easePartBehavior)
+      } else if (action.eventType === "MultiPlanet") {
+        planetCount = readPlanetCount(action.planets, planetCount)
+      }
+    }
+
+    // 星球数量减少时，超出的中心星球编号回到第一颗
+    pivot %= planetCount
+
+    const backAngle = getBackAngle(level, i)
+    const isMidspin = direction === MIDSPIN_ANGLE
+
+    // 相对角度（度），与 ADOFAI 一致：0 视为一整圈；多星球时领先的星球已超前一个内角
+    const interior = getPlanetInteriorAngle(planetCount)
+    let relative = 0
+    if (!isMidspin) {
+      const delta = normalizeAngle(backAngle - direction)
+      relative = isClockwise ? delta : normalizeAngle(360 - delta)
+      if (relative === 0) relative = 360
+      relative -= interior
+      if (relative <= 0) relative += 360
+    }
+
+    // Hold 以圈为单位，每圈 360 度；Pause 以拍为单位，每拍 180 度
+    const hold = getHold(tiles[i])
+    const holdSweep = (hold?.rotations ?? 0) * 360
+    relative += holdSweep
+    for (const action of actions) {
+      if (action.eventType === "Pause") {
+        relative += (action.duration || 0) * 180
+      }
+    }
+
+    // 自由移动段的时长以拍为单位，取代本块原有的旋转
+    const freeRoam = getFreeRoamAction(tiles[i])
+    if (freeRoam) relative = getFreeRoamBeats(freeRoam) * 180
+
+    const duration = (relative / 180) * (60000 / bpm)
+    const startAngle = backAngle + (isClockwise ? -interior : interior)
+
+    timeline.push({
+      index: i,
+      time,
+      duration,
+      bpm,
+      startAngle: (startAngle * Math.PI) / 180,
+      sweep: (relative * Math.PI) / 180,
+      holdSweep: (holdSweep * Math.PI) / 180,
+      holdLength: hold?.length ?? 0,
+      isClockwise,
+      isMidspin,
+      planetEase,
+      planetCount,
+      pivot,
+    })
+
+    time += duration
+    pivot = (pivot + 1) % planetCount
+  }
+
+  return timeline
+}
+
+function readPlanetEase(name: unknown, parts: unknown, behavior: unknown): PlanetEase {
+  return {
+    ease: name ?? "Linear",
+    parts: Math.max(Math.floor(Number(parts) || 1), 1),
+    behavior: behavior === "Repeat" ? "Repeat" : "Mirror",
+  }
+}
+
+function readPlanetCount(value: unknown, fallback: number): number {
+  const count = typeof value === "number" ? Math.floor(value) : PLANET_COUNTS[String(value)]
+  return count >= 2 ? count : fallback
+}
+
+// 按星球缓动把线性的旋转进度（0-1）换算为角度进度
+export function easePlanetProgress(planetEase: PlanetEase, progress: number): number {
+  const { parts } = planetEase
+  const position = Math.min(Math.max(progress, 0), 1) * parts
+  const part = Math.min(Math.floor(position), parts - 1)
+  const local = position - part
+  const mirrored = planetEase.behavior === "Mirror" && part % 2 === 1
+  const eased = mirrored ? 1 - ease(planetEase.ease, 1 - local) : ease(planetEase.ease, local)
+  return (part + eased) / parts
+}
+
+// 旋转星球在第 index 块开始时所在的方向（度），即指向上一块的方向
+function getBackAngle(level: ADOFAI.Level, index: number): number {
+  if (index === 0) return 180
+  const previous = level.tiles[index - 1]?.direction ?? 0
+  if (previous === MIDSPIN_ANGLE) {
+    return level.tiles[index - 2]?.direction ?? 0
+  }
+  return previous + 180
+}
+
+/**
+ * 二分查找 time 时刻所在的砖块
+ */
+export function findTileAtTime(timeline: TileTiming[], time: number): number {
+  if (timeline.length === 0 || time <= 0) return 0
+
+  let low = 0
+  let high = timeline.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (timeline[mid].time <= time) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+  return low
+}
+
+/**
+ * 计算 time 时刻旋转星球的状态，与帧率无关
+ */
+export function getOrbitState(timeline: TileTiming[], time: number): OrbitState | null {
+  if (timeline.length === 0) return null
+
+  const tileIndex = findTileAtTime(timeline, time)
+  const timing = timeline[tileIndex]
+  // 最后一块是终点，星球停在上面不再旋转
+  const isLast = tileIndex === timeline.length - 1
+  const progress =
+    !isLast && timing.duration > 0 ? Math.min(Math.max((time - timing.time) / timing.duration, 0), 1) : 0
+  const sign = timing.isClockwise ? -1 : 1
+  const swept = timing.sweep * easePlanetProgress(timing.planetEase, progress)
+
+  return {
+    tileIndex,
+    progress,
+    angle: timing.startAngle + sign * swept,
+    holdProgress: timing.holdSweep > 0 ? Math.min(swept / timing.holdSweep, 1) : 0,
+  }
+}
+
+/**
+ * 第 index 块是否需要玩家按键命中
+ * 第 0 块是起点；中旋后的砖块与中旋砖块同时到达，不需要单独命中
+ */
+export function requiresHit(timeline: TileTiming[], index: number): boolean {
+  if (index <= 0) return false
+  return !timeline[index - 1]?.isMidspin
+}
+
+// 整条轨道的总时长（毫秒）
+export function getTimelineDuration(timeline: TileTiming[]): number {
+  if (timeline.length === 0) return 0
+  const last = timeline[timeline.length - 1]
+  return last.time
+}
+
+/**
+ * 砖块上的事件的开始时间与持续时间（毫秒）
+ * angleOffset 按本块的 BPM 把事件推迟若干度（180 度为一拍），duration 以拍为单位
+ */
+export function getEventTiming(timing: TileTiming, action: Record<string, any>): { start: number; duration: number } {
+  const beat = 60000 / timing.bpm
+  const angleOffset = Number(action.angleOffset) || 0
+  const duration = Math.max(Number(action.duration) || 0, 0)
+  return { start: timing.time + (angleOffset / 180) * beat, duration: duration * beat }
+}
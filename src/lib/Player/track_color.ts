@@ -0,0 +1,220 @@
+import type * as ADOFAI from "adofai"
+import type { TileTiming } from "./timeline"
+
+// 轨道颜色：由 settings 的 trackColorType 等字段决定，ColorTrack 与 RecolorTrack 事件覆盖部分砖块
+
+export type TrackColorType = "Single" | "Stripes" | "Glow" | "Blink" | "Switch" | "Rainbow" | "Volume"
+
+export interface TrackColorConfig {
+  type: TrackColorType
+  // 0xRRGGBB 与不透明度 0-1
+  color: number
+  opacity: number
+  secondaryColor: number
+  secondaryOpacity: number
+  // 动画周期（秒）
+  animDuration: number
+  pulse: "None" | "Forward" | "Backward"
+  pulseLength: number
+}
+
+export interface TrackColor {
+  color: number
+  opacity: number
+}
+
+// RecolorTrack 在 time 时刻把 startTile 到 endTile 的颜色改为 config
+interface RecolorEvent {
+  time: number
+  startTile: number
+  endTile: number
+  config: TrackColorConfig
+}
+
+// 引用砖块的方式：[偏移, "ThisTile" | "Start" | "End"]
+export type TileReference = [number, string]
+
+const DEFAULT_TRACK_COLOR = "debb7b"
+const DEFAULT_SECONDARY_TRACK_COLOR = "ffffff"
+
+/**
+ * 解析相对砖块引用，结果限制在轨道范围内
+ */
+export function resolveTileReference(reference: unknown, tileIndex: number, tileCount: number): number {
+  const [offset, base] = Array.isArray(reference) ? (reference as TileReference) : [0, "ThisTile"]
+  const origin = base === "Start" ? 0 : base === "End" ? tileCount - 1 : tileIndex
+  return Math.min(Math.max(origin + (Number(offset) || 0), 0), tileCount - 1)
+}
+
+// 解析 6 位或 8 位（带透明度）的十六进制颜色
+export function parseColor(value: unknown, fallback: string): TrackColor {
+  const hex = typeof value === "string" ? value.replace(/^#/, "") : ""
+  const valid = /^[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/.test(hex) ? hex : fallback
+  return {
+    color: Number.parseInt(valid.slice(0, 6), 16),
+    opacity: valid.length === 8 ? Number.parseInt(valid.slice(6, 8), 16) / 255 : 1,
+  }
+}
+
+/**
+ * 从 settings 或 ColorTrack/RecolorTrack 事件读取颜色配置，缺少的字段沿用 base
+ */
+function readConfig(source: Record<string, any>, base?: TrackColorConfig): TrackColorConfig {
+  const primary =
+    source.trackColor !== undefined
+      ? parseColor(source.trackColor, DEFAULT_TRACK_COLOR)
+      : base
+        ? { color: base.color, opacity: base.opacity }
+        : parseColor(undefined, DEFAULT_TRACK_COLOR)
+  const secondary =
+    source.secondaryTrackColor !== undefined
+      ? parseColor(source.secondaryTrackColor, DEFAULT_SECONDARY_TRACK_COLOR)
+      : base
+        ? { color: base.secondaryColor, opacity: base.secondaryOpacity }
+        : parseColor(undefined, DEFAULT_SECONDARY_TRACK_COLOR)
+
+  return {
+    type: source.trackColorType ?? base?.type ?? "Single",
+    color: primary.color,
+    opacity: primary.opacity,
+    secondaryColor: secondary.color,
+    secondaryOpacity: secondary.opacity,
+    animDuration: Math.max(Number(source.trackColorAnimDuration ?? base?.animDuration ?? 2), 0.01),
+    pulse: source.trackColorPulse ?? base?.pulse ?? "None",
+    pulseLength: Math.max(Number(source.trackPulseLength ?? base?.pulseLength ?? 10), 1),
+  }
+}
+
+// 会随时间变化的颜色类型
+export function isAnimatedConfig(config: TrackColorConfig): boolean {
+  return config.type !== "Single" && config.type !== "Stripes"
+}
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t
+
+function lerpColor(a: TrackColor, b: TrackColor, t: number): TrackColor {
+  const channel = (shift: number): number =>
+    Math.round(lerp((a.color >> shift) & 0xff, (b.color >> shift) & 0xff, t)) << shift
+  return {
+    color: channel(16) | channel(8) | channel(0),
+    opacity: lerp(a.opacity, b.opacity, t),
+  }
+}
+
+// 色相 0-1，饱和度与明度为 1 的颜色
+function hueToColor(hue: number): number {
+  const channel = (n: number): number => {
+    const k = (n + hue * 6) % 6
+    return Math.round(255 * (1 - Math.max(Math.min(k, 4 - k, 1), 0)))
+  }
+  return (channel(5) << 16) | (channel(3) << 8) | channel(1)
+}
+
+/**
+ * 砖块在 time（秒）时的颜色
+ * pulse 让相邻砖块的动画相位错开，形成沿轨道移动的波；volume 为当前歌曲响度 0-1
+ */
+export function getTrackColor(config: TrackColorConfig, tileIndex: number, time: number, volume = 0): TrackColor {
+  const primary = { color: config.color, opacity: config.opacity }
+  const secondary = { color: config.secondaryColor, opacity: config.secondaryOpacity }
+
+  const pulseOffset = (tileIndex % config.pulseLength) / config.pulseLength
+  const offset = config.pulse === "Forward" ? -pulseOffset : config.pulse === "Backward" ? pulseOffset : 0
+  const phase = (((time / config.animDuration + offset) % 1) + 1) % 1
+
+  switch (config.type) {
+    case "Stripes":
+      return tileIndex % 2 === 0 ? primary : secondary
+    case "Glow":
+      return lerpColor(primary, secondary, (1 - Math.cos(phase * Math.PI * 2)) / 2)
+    case "Blink":
+      // 每个周期开始时闪到第二颜色，再渐变回主颜色
+      return lerpColor(secondary, primary, phase)
+    case "Switch":
+      return phase < 0.5 ? primary : secondary
+    case "Rainbow":
+      return { color: hueToColor(phase), opacity: config.opacity }
+    case "Volume":
+      return lerpColor(primary, secondary, Math.min(Math.max(volume, 0), 1))
+    default:
+      return primary
+  }
+}
+
+/**
+ * 整条轨道的颜色状态
+ * ColorTrack 从所在砖块开始改变之后所有砖块的颜色，在编辑视图中即可看到；
+ * RecolorTrack 只在播放到事件时间时生效，seek/update 按时间轴应用
+ */
+export class TrackColorState {
+  private baseConfigs: TrackColorConfig[] = []
+  private overrides: (TrackColorConfig | undefined)[] = []
+  private recolorEvents: RecolorEvent[] = []
+  private nextEvent = 0
+  private animated: boolean
+
+  constructor(level: ADOFAI.Level, timeline: TileTiming[]) {
+    const tiles = level?.tiles || []
+    let config = readConfig(level?.settings || {})
+
+    tiles.forEach((tile, tileIndex) => {
+      for (const action of tile.actions || []) {
+        if (action.eventType === "ColorTrack") {
+          config = readConfig(action, config)
+        } else if (action.eventType === "RecolorTrack" && timeline[tileIndex]) {
+          const timing = timeline[tileIndex]
+          const beat = 60000 / timing.bpm
+          const a = resolveTileReference(action.startTile, tileIndex, tiles.length)
+          const b = resolveTileReference(action.endTile, tileIndex, tiles.length)
+          this.recolorEvents.push({
+            time: timing.time + ((Number(action.angleOffset) || 0) / 180) * beat,
+            startTile: Math.min(a, b),
+            endTile: Math.max(a, b),
+            // 未写明的字段沿用事件所在位置的颜色
+            config: readConfig(action, config),
+          })
+        }
+      }
+      this.baseConfigs.push(config)
+    })
+
+    this.recolorEvents.sort((a, b) => a.time - b.time)
+    this.animated =
+      this.baseConfigs.some(isAnimatedConfig) || this.recolorEvents.some((event) => isAnimatedConfig(event.config))
+  }
+
+  // 回到 time（毫秒）时刻的状态，time 为 -Infinity 时不应用任何 RecolorTrack
+  public seek(time: number): void {
+    this.overrides = []
+    this.nextEvent = 0
+    this.update(time)
+  }
+
+  // 应用 time（毫秒）之前尚未生效的 RecolorTrack，返回是否有变化
+  public update(time: number): boolean {
+    let changed = false
+    while (this.nextEvent < this.recolorEvents.length && this.recolorEvents[this.nextEvent].time <= time) {
+      const event = this.recolorEvents[this.nextEvent++]
+      for (let i = event.startTile; i <= event.endTile; i++) {
+        this.overrides[i] = event.config
+      }
+      changed = true
+    }
+    return changed
+  }
+
+  public getConfig(tileIndex: number): TrackColorConfig | undefined {
+    return this.overrides[tileIndex] ?? this.baseConfigs[tileIndex]
+  }
+
+  // 是否有砖块的颜色随时间变化，没有时播放中不需要逐帧更新
+  public hasAnimation(): boolean {
+    return this.animated
+  }
+
+  public getColor(tileIndex: number, time: number, volume = 0): TrackColor {
+    const config = this.getConfig(tileIndex)
+    if (!config) return parseColor(undefined, DEFAULT_TRACK_COLOR)
+    return getTrackColor(config, tileIndex, time, volume)
+  }
+}
@@ -0,0 +1,340 @@
+import type * as ADOFAI from "adofai"
+import { resolveTileReference } from "./track_color"
+import type { TileTiming } from "./timeline"
+import type { EventTween } from "./tween"
+
+/**
+ * 砖块的变换：PositionTrack 的旋转、缩放与不透明度是静态布局的一部分（位置偏移已包含在砖块坐标中），
+ * MoveTrack 在播放时缓动改变变换，AnimateTrack 决定砖块在被到达前后的出现与消失动画
+ */
+
+export interface TrackTransform {
+  // 相对砖块坐标的偏移（格）、旋转（度，顺时针为正）、缩放与不透明度（0-1）
+  offsetX: number
+  offsetY: number
+  rotation: number
+  scaleX: number
+  scaleY: number
+  opacity: number
+}
+
+export type AppearAnimation =
+  | "None"
+  | "Assemble"
+  | "Assemble_Far"
+  | "Extend"
+  | "Grow"
+  | "Grow_Spin"
+  | "Fade"
+  | "Drop"
+  | "Rise"
+export type DisappearAnimation = "None" | "Scatter" | "Scatter_Far" | "Retract" | "Shrink" | "Shrink_Spin" | "Fade"
+
+// 砖块的出现与消失动画，来自 settings 或之前的 AnimateTrack
+interface TrackAnimationConfig {
+  appear: AppearAnimation
+  beatsAhead: number
+  disappear: DisappearAnimation
+  beatsBehind: number
+}
+
+// 一段出现或消失动画的时间（毫秒）
+interface AnimationWindow {
+  tile: number
+  start: number
+  end: number
+}
+
+const APPEAR_ANIMATIONS: AppearAnimation[] = [
+  "None",
+  "Assemble",
+  "Assemble_Far",
+  "Extend",
+  "Grow",
+  "Grow_Spin",
+  "Fade",
+  "Drop",
+  "Rise",
+]
+const DISAPPEAR_ANIMATIONS: DisappearAnimation[] = ["None", "Scatter", "Scatter_Far", "Retract", "Shrink", "Shrink_Spin", "Fade"]
+
+// 出现与消失动画持续的拍数
+const ANIMATION_BEATS = 1
+// Assemble/Scatter 与 Drop/Rise 的移动距离（格）
+const NEAR_DISTANCE = 3
+const FAR_DISTANCE = 10
+
+export const IDENTITY_TRANSFORM: TrackTransform = { offsetX: 0, offsetY: 0, rotation: 0, scaleX: 1, scaleY: 1, opacity: 1 }
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const number = Number(value)
+  return value !== null && value !== undefined && Number.isFinite(number) ? number : fallback
+}
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t
+
+// 每个砖块固定的伪随机方向（弧度），用于 Assemble/Scatter
+const getScatterAngle = (tile: number): number => {
+  const value = Math.sin(tile * 12.9898 + 78.233) * 43758.5453
+  return (value - Math.floor(value)) * Math.PI * 2
+}
+
+function readAnimationConfig(source: Record<string, any>, base?: TrackAnimationConfig): TrackAnimationConfig {
+  return {
+    appear: APPEAR_ANIMATIONS.includes(source.trackAnimation) ? source.trackAnimation : (base?.appear ?? "None"),
+    beatsAhead: Math.max(toNumber(source.beatsAhead, base?.beatsAhead ?? 3), 0),
+    disappear: DISAPPEAR_ANIMATIONS.includes(source.trackDisappearAnimation)
+      ? source.trackDisappearAnimation
+      : (base?.disappear ?? "None"),
+    beatsBehind: Math.max(toNumber(source.beatsBehind, base?.beatsBehind ?? 4), 0),
+  }
+}
+
+// 出现动画在进度 t（0-1）时的变换，t 为 0 时砖块尚未出现
+function getAppearTransform(animation: AppearAnimation, tile: number, t: number): TrackTransform {
+  const rest = 1 - t
+  switch (animation) {
+    case "Assemble":
+    case "Assemble_Far": {
+      const distance = (animation === "Assemble" ? NEAR_DISTANCE : FAR_DISTANCE) * rest
+      const angle = getScatterAngle(tile)
+      return { ...IDENTITY_TRANSFORM, offsetX: Math.cos(angle) * distance, offsetY: Math.sin(angle) * distance, opacity: t }
+    }
+    case "Extend":
+      return { ...IDENTITY_TRANSFORM, scaleX: t, opacity: t > 0 ? 1 : 0 }
+    case "Grow":
+      return { ...IDENTITY_TRANSFORM, scaleX: t, scaleY: t }
+    case "Grow_Spin":
+      return { ...IDENTITY_TRANSFORM, scaleX: t, scaleY: t, rotation: rest * 360 }
+    case "Fade":
+      return { ...IDENTITY_TRANSFORM, opacity: t }
+    case "Drop":
+      return { ...IDENTITY_TRANSFORM, offsetY: NEAR_DISTANCE * rest, opacity: t }
+    case "Rise":
+      return { ...IDENTITY_TRANSFORM, offsetY: -NEAR_DISTANCE * rest, opacity: t }
+    default:
+      return IDENTITY_TRANSFORM
+  }
+}
+
+// 消失动画在进度 t（0-1）时的变换，t 为 1 时砖块已经消失
+function getDisappearTransform(animation: DisappearAnimation, tile: number, t: number): TrackTransform {
+  const rest = 1 - t
+  switch (animation) {
+    case "Scatter":
+    case "Scatter_Far": {
+      const distance = (animation === "Scatter" ? NEAR_DISTANCE : FAR_DISTANCE) * t
+      const angle = getScatterAngle(tile)
+      return { ...IDENTITY_TRANSFORM, offsetX: Math.cos(angle) * distance, offsetY: Math.sin(angle) * distance, opacity: rest }
+    }
+    case "Retract":
+      return { ...IDENTITY_TRANSFORM, scaleX: rest, opacity: t < 1 ? 1 : 0 }
+    case "Shrink":
+      return { ...IDENTITY_TRANSFORM, scaleX: rest, scaleY: rest }
+    case "Shrink_Spin":
+      return { ...IDENTITY_TRANSFORM, scaleX: rest, scaleY: rest, rotation: t * 360 }
+    case "Fade":
+      return { ...IDENTITY_TRANSFORM, opacity: rest }
+    default:
+      return IDENTITY_TRANSFORM
+  }
+}
+
+// 在 base 之上叠加 extra：偏移与旋转相加，缩放与不透明度相乘
+function combine(base: TrackTransform, extra: TrackTransform): TrackTransform {
+  return {
+    offsetX: base.offsetX + extra.offsetX,
+    offsetY: base.offsetY + extra.offsetY,
+    rotation: base.rotation + extra.rotation,
+    scaleX: base.scaleX * extra.scaleX,
+    scaleY: base.scaleY * extra.scaleY,
+    opacity: base.opacity * extra.opacity,
+  }
+}
+
+/**
+ * 整条轨道的变换状态
+ * MoveTrack 以补间的形式加入播放的调度器，reset 恢复静态布局；
+ * 出现与消失动画只在 setAnimationTime 给出时间后生效，编辑视图中所有砖块都可见
+ * 变化过的砖块记录在 dirty 中，由使用方取出后更新网格
+ */
+export class TrackTransformState {
+  private base: TrackTransform[] = []
+  private moved: Map<number, TrackTransform> = new Map()
+  private animations: TrackAnimationConfig[] = []
+  private appearWindows: AnimationWindow[] = []
+  private disappearWindows: AnimationWindow[] = []
+  // 最长的一段动画（毫秒），用于查找时间范围内的动画
+  private maxWindow = 0
+  private animationTime: number | null = null
+  private timeline: TileTiming[]
+  private dirty: Set<number> = new Set()
+  private allDirty = true
+
+  constructor(level: ADOFAI.Level, timeline: TileTiming[]) {
+    this.timeline = timeline
+    const tiles = level?.tiles || []
+    let animation = readAnimationConfig(level?.settings || {})
+
+    tiles.forEach((tile, tileIndex) => {
+      let transform = IDENTITY_TRANSFORM
+      for (const action of tile.actions || []) {
+        if (action.eventType === "PositionTrack") {
+          transform = {
+            ...IDENTITY_TRANSFORM,
+            rotation: toNumber(action.rotation, 0),
+            scaleX: toNumber(action.scale, 100) / 100,
+            scaleY: toNumber(action.scale, 100) / 100,
+            opacity: Math.min(Math.max(toNumber(action.opacity, 100) / 100, 0), 1),
+          }
+        } else if (action.eventType === "AnimateTrack") {
+          animation = readAnimationConfig(action, animation)
+        }
+      }
+      this.base.push(transform)
+      this.animations.push(animation)
+
+      const timing = timeline[tileIndex]
+      if (!timing) return
+      const beat = 60000 / timing.bpm
+      const length = ANIMATION_BEATS * beat
+      this.maxWindow = Math.max(this.maxWindow, length)
+      if (animation.appear !== "None") {
+        const start = timing.time - animation.beatsAhead * beat
+        this.appearWindows.push({ tile: tileIndex, start, end: start + length })
+      }
+      if (animation.disappear !== "None") {
+        const start = timing.time + animation.beatsBehind * beat
+        this.disappearWindows.push({ tile: tileIndex, start, end: start + length })
+      }
+    })
+
+    this.appearWindows.sort((a, b) => a.start - b.start)
+    this.disappearWindows.sort((a, b) => a.start - b.start)
+  }
+
+  public getTransform(tileIndex: number): TrackTransform {
+    let transform = this.moved.get(tileIndex) ?? this.base[tileIndex] ?? IDENTITY_TRANSFORM
+    const time = this.animationTime
+    const animation = this.animations[tileIndex]
+    const timing = this.timeline[tileIndex]
+    if (time === null || !animation || !timing) return transform
+
+    const beat = 60000 / timing.bpm
+    const length = ANIMATION_BEATS * beat
+    if (animation.appear !== "None") {
+      const start = timing.time - animation.beatsAhead * beat
+      const t = Math.min(Math.max((time - start) / length, 0), 1)
+      transform = combine(transform, getAppearTransform(animation.appear, tileIndex, t))
+    }
+    if (animation.disappear !== "None") {
+      const start = timing.time + animation.beatsBehind * beat
+      const t = Math.min(Math.max((time - start) / length, 0), 1)
+      transform = combine(transform, getDisappearTransform(animation.disappear, tileIndex, t))
+    }
+    return transform
+  }
+
+  // 撤销所有 MoveTrack 的效果
+  public reset(): void {
+    this.moved.forEach((_, tileIndex) => this.dirty.add(tileIndex))
+    this.moved.clear()
+  }
+
+  /**
+   * 出现与消失动画的时间（毫秒），null 表示不播放动画
+   * 只有动画时间范围与上一次时间到本次时间相交的砖块需要更新
+   */
+  public setAnimationTime(time: number | null): void {
+    const previous = this.animationTime
+    this.animationTime = time
+    if (previous === time) return
+    if (previous === null || time === null || time < previous) {
+      if (this.appearWindows.length > 0 || this.disappearWindows.length > 0) this.allDirty = true
+      return
+    }
+
+    for (const windows of [this.appearWindows, this.disappearWindows]) {
+      let index = findFirstStart(windows, previous - this.maxWindow)
+      for (; index < windows.length && windows[index].start <= time; index++) {
+        if (windows[index].end >= previous) this.dirty.add(windows[index].tile)
+      }
+    }
+  }
+
+  /**
+   * MoveTrack：开始时记录 startTile 到 endTile 的当前变换，缓动到事件给出的值
+   * 事件中为 null 或缺省的字段保持不变；位置偏移相对砖块坐标，不累加
+   */
+  public createMoveTween(action: Record<string, any>, tileIndex: number, start: number, duration: number): EventTween {
+    const tileCount = this.base.length
+    const a = resolveTileReference(action.startTile, tileIndex, tileCount)
+    const b = resolveTileReference(action.endTile, tileIndex, tileCount)
+    const field = (value: unknown, index: number): number | null => {
+      const item = Array.isArray(value) ? value[index] : index === 0 ? value : null
+      return item === null || item === undefined || !Number.isFinite(Number(item)) ? null : Number(item)
+    }
+    const scaleX = field(action.scale, 0)
+    const scaleY = Array.isArray(action.scale) ? field(action.scale, 1) : scaleX
+    const opacity = field(action.opacity, 0)
+    const targetOf = (from: TrackTransform): TrackTransform => ({
+      offsetX: field(action.positionOffset, 0) ?? from.offsetX,
+      offsetY: field(action.positionOffset, 1) ?? from.offsetY,
+      rotation: field(action.rotationOffset, 0) ?? from.rotation,
+      scaleX: scaleX === null ? from.scaleX : scaleX / 100,
+      scaleY: scaleY === null ? from.scaleY : scaleY / 100,
+      opacity: opacity === null ? from.opacity : Math.min(Math.max(opacity / 100, 0), 1),
+    })
+
+    let moves: { tile: number; from: TrackTransform; to: TrackTransform }[] = []
+    return {
+      start,
+      duration,
+      ease: action.ease,
+      begin: () => {
+        moves = []
+        for (let tile = Math.min(a, b); tile <= Math.max(a, b); tile++) {
+          const from = this.moved.get(tile) ?? this.base[tile] ?? IDENTITY_TRANSFORM
+          moves.push({ tile, from, to: targetOf(from) })
+        }
+      },
+      step: (progress) => {
+        moves.forEach(({ tile, from, to }) => {
+          this.moved.set(tile, {
+            offsetX: lerp(from.offsetX, to.offsetX, progress),
+            offsetY: lerp(from.offsetY, to.offsetY, progress),
+            rotation: lerp(from.rotation, to.rotation, progress),
+            scaleX: lerp(from.scaleX, to.scaleX, progress),
+            scaleY: lerp(from.scaleY, to.scaleY, progress),
+            opacity: lerp(from.opacity, to.opacity, progress),
+          })
+          this.dirty.add(tile)
+        })
+      },
+    }
+  }
+
+  // 取出变换改变过的砖块，null 表示全部砖块
+  public takeDirty(): number[] | null {
+    const all = this.allDirty
+    const tiles = Array.from(this.dirty)
+    this.allDirty = false
+    this.dirty.clear()
+    return all ? null : tiles
+  }
+}
+
+// 第一个 start 不小于 time 的动画
+function findFirstStart(windows: AnimationWindow[], time: number): number {
+  let low = 0
+  let high = windows.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (windows[mid].start < time) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest"
+import { TweenScheduler, type EventTween } from "./tween"
+
+// 把 value 从 begin 时的值线性移动到 target 的补间
+function createMoveTween(state: { value: number }, start: number, duration: number, target: number): EventTween {
+  let from = 0
+  return {
+    start,
+    duration,
+    ease: "Linear",
+    begin: () => {
+      from = state.value
+    },
+    step: (progress) => {
+      state.value = from + (target - from) * progress
+    },
+  }
+}
+
+describe("TweenScheduler", () => {
+  it("按播放时间推进补间，结束时停在目标值", () => {
+    const state = { value: 0 }
+    const tweens = new TweenScheduler()
+    tweens.add(createMoveTween(state, 100, 100, 10))
+
+    tweens.update(50)
+    expect(state.value).toBe(0)
+    tweens.update(150)
+    expect(state.value).toBeCloseTo(5, 10)
+    tweens.update(400)
+    expect(state.value).toBe(10)
+    expect(tweens.isIdle()).toBe(true)
+  })
+
+  it("新补间开始前先把进行中的补间推进到它的开始时间", () => {
+    const state = { value: 0 }
+    const tweens = new TweenScheduler()
+    tweens.add(createMoveTween(state, 0, 100, 10))
+
+    // 一帧跳过两个补间的开始时间，第二个补间记录的起始值仍是 50 毫秒时的 5
+    const starts: number[] = []
+    tweens.add({ start: 50, duration: 0, ease: "Linear", begin: () => starts.push(state.value), step: () => {} })
+    tweens.update(60)
+    expect(starts).toEqual([5])
+  })
+
+  it("开始时间相同的补间保持添加顺序", () => {
+    const order: string[] = []
+    const tweens = new TweenScheduler()
+    for (const name of ["a", "b", "c"]) {
+      tweens.add({ start: 10, duration: 0, ease: "Linear", begin: () => order.push(name), step: () => {} })
+    }
+    tweens.add({ start: 0, duration: 0, ease: "Linear", begin: () => order.push("first"), step: () => {} })
+
+    tweens.update(10)
+    expect(order).toEqual(["first", "a", "b", "c"])
+  })
+
+  it("seek 先恢复初始状态再重放到指定时间，结果与连续播放一致", () => {
+    const state = { value: 0 }
+    const tweens = new TweenScheduler(() => {
+      state.value = 0
+    })
+    tweens.add(createMoveTween(state, 0, 100, 10))
+    tweens.add(createMoveTween(state, 200, 100, 20))
+
+    for (let time = 0; time <= 250; time += 10) tweens.update(time)
+    const played = state.value
+
+    tweens.seek(400)
+    expect(state.value).toBe(20)
+    tweens.seek(250)
+    expect(state.value).toBeCloseTo(played, 10)
+    expect(state.value).toBeCloseTo(15, 10)
+  })
+
+  it("seek 到 -Infinity 只恢复初始状态，之后可以重新播放", () => {
+    const state = { value: 0 }
+    const tweens = new TweenScheduler(() => {
+      state.value = 0
+    })
+    tweens.add(createMoveTween(state, 0, 100, 10))
+
+    tweens.update(100)
+    expect(state.value).toBe(10)
+    tweens.seek(-Infinity)
+    expect(state.value).toBe(0)
+    expect(tweens.isIdle()).toBe(false)
+    tweens.update(50)
+    expect(state.value).toBeCloseTo(5, 10)
+  })
+})
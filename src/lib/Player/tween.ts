@@ -0,0 +1,77 @@
+import { ease } from "./easing"
+
+// 按播放时间驱动的事件补间：事件在 start 时刻开始，duration 内按 ease 从起始值过渡到目标值
+
+export interface EventTween {
+  // 开始时间与持续时间（毫秒）
+  start: number
+  duration: number
+  ease: unknown
+  // 开始时调用，用于记录起始值
+  begin?(): void
+  // progress 为缓动后的进度，结束时最后一次调用为 1
+  step(progress: number): void
+}
+
+/**
+ * 补间调度器：update 随播放时钟推进，seek 从 reset 后的初始状态重放到任意时间
+ * 补间之间不互相打断，同一时刻多个补间修改同一属性时后开始的生效
+ */
+export class TweenScheduler {
+  private tweens: EventTween[] = []
+  private active: EventTween[] = []
+  private nextTween = 0
+
+  // reset 把补间影响的所有属性恢复为初始值
+  constructor(private reset?: () => void) {}
+
+  // 添加补间，开始时间相同的补间保持添加顺序
+  public add(tween: EventTween): void {
+    let index = this.tweens.length
+    while (index > 0 && this.tweens[index - 1].start > tween.start) index--
+    this.tweens.splice(index, 0, tween)
+    if (index < this.nextTween) this.nextTween++
+  }
+
+  public clear(): void {
+    this.tweens = []
+    this.active = []
+    this.nextTween = 0
+  }
+
+  // 恢复初始状态并重放到 time（毫秒），time 为 -Infinity 时只恢复初始状态
+  public seek(time: number): void {
+    this.reset?.()
+    this.active = []
+    this.nextTween = 0
+    this.update(time)
+  }
+
+  /**
+   * 推进到 time（毫秒）
+   * 新补间开始前，先把进行中的补间推进到它的开始时间，使记录的起始值与连续播放时一致
+   */
+  public update(time: number): void {
+    while (this.nextTween < this.tweens.length && this.tweens[this.nextTween].start <= time) {
+      const tween = this.tweens[this.nextTween++]
+      this.stepActive(tween.start)
+      tween.begin?.()
+      this.active.push(tween)
+    }
+    this.stepActive(time)
+  }
+
+  // 是否还有进行中或尚未开始的补间
+  public isIdle(): boolean {
+    return this.active.length === 0 && this.nextTween >= this.tweens.length
+  }
+
+  private stepActive(time: number): void {
+    if (this.active.length === 0) return
+    this.active = this.active.filter((tween) => {
+      const progress = tween.duration > 0 ? (time - tween.start) / tween.duration : 1
+      tween.step(progress >= 1 ? 1 : ease(tween.ease, progress))
+      return progress < 1
+    })
+  }
+}
@@ -0,0 +1,53 @@
+import type * as ADOFAI from "adofai"
+import { buildChunkGeometry, getChunkGeometryBuffers } from "@/lib/Geo/chunk_geometry"
+import { parseLevel } from "./parse_level"
+import type { LevelSnapshot, WorkerRequest, WorkerResponse } from "./protocol"
+
+// 关卡解析与砖块网格生成的 Worker，由 WorkerPool 创建
+
+// 不能或不需要传回主线程的字段：事件回调、解析器与原始文本
+const LOCAL_FIELDS = ["_events", "guidCallbacks", "_provider", "_options"]
+
+// 进度消息的最小间隔（毫秒），避免大关卡刷屏
+const PROGRESS_INTERVAL = 50
+
+function post(message: WorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer })
+}
+
+function snapshotLevel(level: ADOFAI.Level): LevelSnapshot {
+  const snapshot: LevelSnapshot = {}
+  ;(Object.keys(level) as (keyof ADOFAI.Level)[]).forEach((key) => {
+    const value: unknown = level[key]
+    if (!LOCAL_FIELDS.includes(key) && typeof value !== "function") snapshot[key] = value
+  })
+  return snapshot
+}
+
+async function handle(request: WorkerRequest): Promise<void> {
+  switch (request.type) {
+    case "parse": {
+      let lastProgress = 0
+      const level = await parseLevel(request.source, (progress) => {
+        const now = Date.now()
+        if (now - lastProgress < PROGRESS_INTERVAL) return
+        lastProgress = now
+        post({ id: request.id, type: "progress", progress })
+      })
+      post({ id: request.id, type: "result", result: snapshotLevel(level) })
+      break
+    }
+    case "mesh": {
+      const geometry = buildChunkGeometry(request.tiles)
+      post({ id: request.id, type: "result", result: geometry }, getChunkGeometryBuffers(geometry))
+      break
+    }
+  }
+}
+
+self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data
+  handle(request).catch((error) => {
+    post({ id: request.id, type: "error", error: String(error?.message ?? error) })
+  })
+})
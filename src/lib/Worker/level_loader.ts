@@ -0,0 +1,26 @@
+import * as ADOFAI from "adofai"
+import Hjson from "hjson"
+import { parseLevel } from "./parse_level"
+import { getWorkerPool } from "./pool"
+import type { LevelSource } from "./protocol"
+
+/**
+ * 在 Worker 中解析关卡并计算砖块坐标，结果还原为主线程的 ADOFAI.Level
+ * Worker 不可用时回退到主线程解析；关卡本身有误时直接抛出错误
+ */
+export async function loadLevel(source: LevelSource, onProgress?: (progress: number) => void): Promise<ADOFAI.Level> {
+  const pool = getWorkerPool()
+  if (pool.isAvailable()) {
+    try {
+      const snapshot = await pool.parseLevel(source, onProgress)
+      // 构造函数只保存参数，不会重复解析；解析结果直接写回实例
+      const level = new ADOFAI.Level(source, Hjson)
+      Object.assign(level, snapshot)
+      return level
+    } catch (error) {
+      if (pool.isAvailable()) throw error
+      console.warn("Level worker failed, parsing on main thread:", error)
+    }
+  }
+  return parseLevel(source, onProgress)
+}
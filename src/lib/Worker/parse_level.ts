@@ -0,0 +1,35 @@
+import * as ADOFAI from "adofai"
+import Hjson from "hjson"
+import { applyHoldLayout } from "../Player/hold"
+import type { LevelSource } from "./protocol"
+
+// 关卡解析：读取文本、生成砖块并计算坐标，既在 Worker 中运行，也作为不支持 Worker 时的回退
+
+// 各解析阶段在总进度中的起点与占比
+const STAGE_PROGRESS: Record<string, [number, number]> = {
+  pathData: [0, 0.1],
+  angleData: [0, 0.1],
+  relativeAngle: [0.1, 0.6],
+  tilePosition: [0.7, 0.3],
+}
+
+/**
+ * 解析关卡并计算砖块坐标（包括长按砖块的长条）
+ * onProgress 收到 0-1 的进度，依赖 adofai 的 parse:progress 事件，旧版本没有该事件时只在结束时报告
+ */
+export async function parseLevel(source: LevelSource, onProgress?: (progress: number) => void): Promise<ADOFAI.Level> {
+  const level = new ADOFAI.Level(source, Hjson)
+  if (onProgress) {
+    level.on("parse:progress", (event: any): void => {
+      const stage = STAGE_PROGRESS[event?.stage]
+      if (!stage) return
+      onProgress(stage[0] + stage[1] * Math.min(Math.max(Number(event.percent) || 0, 0), 100) / 100)
+    })
+  }
+
+  await level.load()
+  level.calculateTileCoordinates()
+  applyHoldLayout(level)
+  onProgress?.(1)
+  return level
+}
@@ -0,0 +1,125 @@
+import type { ChunkGeometry, TileMeshInput } from "@/lib/Geo/chunk_geometry"
+import type { LevelSnapshot, LevelSource, WorkerRequest, WorkerResponse } from "./protocol"
+
+/**
+ * Worker 池：按需创建 Worker，任务交给未完成任务最少的 Worker
+ * Worker 不可用（不支持或启动失败）时任务直接失败，由调用方回退到主线程
+ */
+
+interface PoolWorker {
+  worker: Worker
+  // 尚未完成的任务数
+  busy: number
+}
+
+interface Task {
+  owner: PoolWorker
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: number) => void
+}
+
+// 最多使用的 Worker 数，保留一个核心给主线程
+const MAX_WORKERS = 4
+
+export class WorkerPool {
+  private workers: PoolWorker[] = []
+  private tasks: Map<number, Task> = new Map()
+  private nextId = 0
+  private failed = false
+
+  constructor(private size: number) {}
+
+  public isAvailable(): boolean {
+    return typeof Worker !== "undefined" && !this.failed
+  }
+
+  // 解析关卡，返回解析后的关卡字段，onProgress 收到 0-1 的进度
+  public parseLevel(source: LevelSource, onProgress?: (progress: number) => void): Promise<LevelSnapshot> {
+    return this.run({ id: this.nextId++, type: "parse", source }, onProgress)
+  }
+
+  // 生成分块几何体，缓冲区从 Worker 转移回主线程
+  public buildChunkGeometry(tiles: TileMeshInput[]): Promise<ChunkGeometry> {
+    return this.run({ id: this.nextId++, type: "mesh", tiles })
+  }
+
+  public dispose(): void {
+    this.workers.forEach((entry) => entry.worker.terminate())
+    this.workers = []
+    this.tasks.forEach((task) => task.reject(new Error("Worker pool disposed")))
+    this.tasks.clear()
+  }
+
+  private run<T>(request: WorkerRequest, onProgress?: (progress: number) => void): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (!this.isAvailable()) {
+        reject(new Error("Web Workers are not available"))
+        return
+      }
+      const owner = this.getWorker()
+      owner.busy++
+      this.tasks.set(request.id, { owner, resolve, reject, onProgress })
+      owner.worker.postMessage(request)
+    })
+  }
+
+  private getWorker(): PoolWorker {
+    const idle = this.workers.find((entry) => entry.busy === 0)
+    if (idle) return idle
+    if (this.workers.length < this.size) return this.createWorker()
+    return this.workers.reduce((a, b) => (b.busy < a.busy ? b : a))
+  }
+
+  private createWorker(): PoolWorker {
+    const entry: PoolWorker = {
+      worker: new Worker(new URL("./level.worker.ts", import.meta.url), { type: "module" }),
+      busy: 0,
+    }
+
+    entry.worker.addEventListener("message", (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data
+      const task = this.tasks.get(response.id)
+      if (!task) return
+      if (response.type === "progress") {
+        task.onProgress?.(response.progress)
+        return
+      }
+      this.tasks.delete(response.id)
+      entry.busy--
+      if (response.type === "result") {
+        task.resolve(response.result)
+      } else {
+        task.reject(new Error(response.error))
+      }
+    })
+
+    // Worker 脚本无法加载或崩溃：结束它的任务，之后不再使用 Worker
+    entry.worker.addEventListener("error", (event) => {
+      event.preventDefault()
+      console.error("Worker error:", event.message)
+      this.failed = true
+      entry.worker.terminate()
+      this.workers = this.workers.filter((other) => other !== entry)
+      this.tasks.forEach((task, id) => {
+        if (task.owner !== entry) return
+        this.tasks.delete(id)
+        task.reject(new Error(`Worker failed: ${event.message}`))
+      })
+    })
+
+    this.workers.push(entry)
+    return entry
+  }
+}
+
+let sharedPool: WorkerPool | null = null
+
+// 全局共享的 Worker 池
+export function getWorkerPool(): WorkerPool {
+  if (!sharedPool) {
+    const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2
+    sharedPool = new WorkerPool(Math.max(1, Math.min(cores - 1, MAX_WORKERS)))
+  }
+  return sharedPool
+}
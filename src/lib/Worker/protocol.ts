@@ -0,0 +1,19 @@
+import type { Level } from "adofai"
+import type { TileMeshInput } from "@/lib/Geo/chunk_geometry"
+
+// 主线程与 Worker 之间的消息，id 用于把响应对应到请求
+
+export type WorkerRequest =
+  | { id: number; type: "parse"; source: LevelSource }
+  | { id: number; type: "mesh"; tiles: TileMeshInput[] }
+
+export type WorkerResponse =
+  | { id: number; type: "progress"; progress: number }
+  | { id: number; type: "result"; result: unknown }
+  | { id: number; type: "error"; error: string }
+
+// 关卡文本或已解析的关卡对象
+export type LevelSource = ConstructorParameters<typeof Level>[0]
+
+// 解析后的关卡数据字段（不含事件回调等只在本线程有意义的字段）
+export type LevelSnapshot = Record<string, unknown>
@@ -34,9 +34,63 @@ export const translations = {
       select: "选择",
       move: "移动",
       addTile: "添加砖块",
+      removeTile: "删除砖块",
+      selectedTiles: "已选砖块",
+      undo: "撤销",
+      redo: "重做",
+      inspector: {
+        title: "事件",
+        noSelection: "选择一个砖块以查看事件",
+        multipleSelection: "选中了多个砖块，请只选择一个",
+        noActions: "该砖块没有事件",
+        addAction: "添加事件",
+        moveUp: "上移",
+        moveDown: "下移",
+        remove: "删除",
+      },
+      levelSettings: {
+        title: "关卡设置",
+        close: "关闭",
+        groups: {
+          song: "歌曲",
+          level: "关卡信息",
+          track: "轨道",
+          background: "背景",
+          camera: "摄像机",
+          planet: "星球",
+          text: "文字",
+          legacy: "兼容",
+          other: "其他",
+        },
+      },
+      angleInput: {
+        hint: "键盘放置：D/E/W/Q/A/Z/X/C 方向，Tab 切换 30°/60° 布局，Shift 使斜向按键偏转 30°，S 中旋",
+        alternateLayout: "30°/60° 布局",
+      },
       playback: "播放",
       play: "播放",
       pause: "暂停",
+      startTile: "起始砖块",
+      playFromHere: "从此处播放",
+      playFromStart: "从头播放",
+      inputMode: "练习模式（按键判定）",
+      screenEffects: "屏幕特效（闪光、泛光、震动、滤镜）",
+      judgement: {
+        accuracy: "准确率",
+        TooEarly: "太早",
+        VeryEarly: "早!!",
+        EPerfect: "早!",
+        Perfect: "完美!",
+        LPerfect: "晚!",
+        VeryLate: "晚!!",
+        TooLate: "太晚",
+      },
+      transport: {
+        tile: "砖块",
+        rate: "速度",
+        preservePitch: "保持音高",
+        clearLoop: "清除循环",
+      },
       controls: {
         pan: "左键拖拽：平移",
         zoom: "滚轮：缩放",
@@ -49,6 +103,11 @@ export const translations = {
         exportError: "文件导出失败!",
         noFileToExport: "没有可导出的文件!",
         fileReadError: "文件读取失败!",
+        noLevelFile: "未找到关卡文件!",
+        songLoaded: "歌曲载入成功!",
+        songNotFound: "未找到关卡的歌曲文件，将静音播放",
+        imagesNotFound: "未找到以下装饰图片：",
+        songLoadError: "歌曲解码失败!",
       },
       info: {
         cameraPosition: "相机位置",
@@ -120,9 +179,63 @@ export const translations = {
       select: "Select",
       move: "Move",
       addTile: "Add Tile",
+      removeTile: "Remove Tile",
+      selectedTiles: "Selected",
+      undo: "Undo",
+      redo: "Redo",
+      inspector: {
+        title: "Events",
+        noSelection: "Select a tile to see its events",
+        multipleSelection: "Multiple tiles selected; select a single tile",
+        noActions: "This tile has no events",
+        addAction: "Add Event",
+        moveUp: "Move Up",
+        moveDown: "Move Down",
+        remove: "Remove",
+      },
+      levelSettings: {
+        title: "Level Settings",
+        close: "Close",
+        groups: {
+          song: "Song",
+          level: "Level Info",
+          track: "Track",
+          background: "Background",
+          camera: "Camera",
+          planet: "Planets",
+          text: "Text",
+          legacy: "Legacy",
+          other: "Other",
+        },
+      },
+      angleInput: {
+        hint: "Keyboard placement: D/E/W/Q/A/Z/X/C directions, Tab toggles the 30°/60° layout, Shift tilts diagonal keys by 30°, S midspin",
+        alternateLayout: "30°/60° layout",
+      },
       playback: "Playback",
       play: "Play",
       pause: "Pause",
+      startTile: "Start Tile",
+      playFromHere: "Play From Here",
+      playFromStart: "Play From Start",
+      inputMode: "Practice Mode (judge key presses)",
+      screenEffects: "Screen Effects (flash, bloom, shake, filters)",
+      judgement: {
+        accuracy: "Accuracy",
+        TooEarly: "Too Early",
+        VeryEarly: "Very Early",
+        EPerfect: "Early Perfect",
+        Perfect: "Perfect",
+        LPerfect: "Late Perfect",
+        VeryLate: "Very Late",
+        TooLate: "Too Late",
+      },
+      transport: {
+        tile: "Tile",
+        rate: "Speed",
+        preservePitch: "Preserve Pitch",
+        clearLoop: "Clear Loop",
+      },
       controls: {
         pan: "Left Click + Drag: Pan",
         zoom: "Scroll: Zoom",
@@ -135,6 +248,11 @@ export const translations = {
         exportError: "Failed to export file!",
         noFileToExport: "No file to export!",
         fileReadError: "Failed to read file!",
+        noLevelFile: "No level file found!",
+        songLoaded: "Song loaded successfully!",
+        songNotFound: "Song file not found, playing without audio",
+        imagesNotFound: "Decoration images not found:",
+        songLoadError: "Failed to decode song!",
       },
       info: {
         cameraPosition: "Camera Position",
@@ -206,9 +324,63 @@ export const translations = {
       select: "選択",
       move: "移動",
       addTile: "タイル追加",
+      removeTile: "タイル削除",
+      selectedTiles: "選択中のタイル",
+      undo: "元に戻す",
+      redo: "やり直す",
+      inspector: {
+        title: "イベント",
+        noSelection: "タイルを選択するとイベントが表示されます",
+        multipleSelection: "複数のタイルが選択されています。1 つだけ選択してください",
+        noActions: "このタイルにはイベントがありません",
+        addAction: "イベントを追加",
+        moveUp: "上へ",
+        moveDown: "下へ",
+        remove: "削除",
+      },
+      levelSettings: {
+        title: "レベル設定",
+        close: "閉じる",
+        groups: {
+          song: "曲",
+          level: "レベル情報",
+          track: "トラック",
+          background: "背景",
+          camera: "カメラ",
+          planet: "惑星",
+          text: "テキスト",
+          legacy: "互換性",
+          other: "その他",
+        },
+      },
+      angleInput: {
+        hint: "キー配置：D/E/W/Q/A/Z/X/C で方向、Tab で 30°/60° レイアウト、Shift で斜めのキーを 30° 傾ける、S でミッドスピン",
+        alternateLayout: "30°/60° レイアウト",
+      },
       playback: "再生",
       play: "再生",
       pause: "一時停止",
+      startTile: "開始タイル",
+      playFromHere: "ここから再生",
+      playFromStart: "最初から再生",
+      inputMode: "練習モード（キー入力を判定）",
+      screenEffects: "画面エフェクト（フラッシュ・ブルーム・揺れ・フィルター）",
+      judgement: {
+        accuracy: "精度",
+        TooEarly: "早すぎ",
+        VeryEarly: "かなり早い",
+        EPerfect: "やや早い",
+        Perfect: "パーフェクト",
+        LPerfect: "やや遅い",
+        VeryLate: "かなり遅い",
+        TooLate: "遅すぎ",
+      },
+      transport: {
+        tile: "タイル",
+        rate: "速度",
+        preservePitch: "ピッチを保持",
+        clearLoop: "ループ解除",
+      },
       controls: {
         pan: "左クリック + ドラッグ：パン",
         zoom: "スクロール：ズーム",
@@ -221,6 +393,11 @@ export const translations = {
         exportError: "ファイルのエクスポートに失敗しました！",
         noFileToExport: "エクスポートするファイルがありません！",
         fileReadError: "ファイルの読み取りに失敗しました！",
+        noLevelFile: "レベルファイルが見つかりません！",
+        songLoaded: "曲の読み込みに成功しました！",
+        songNotFound: "曲ファイルが見つからないため、無音で再生します",
+        imagesNotFound: "次の装飾画像が見つかりません：",
+        songLoadError: "曲のデコードに失敗しました！",
       },
       info: {
         cameraPosition: "カメラ位置",
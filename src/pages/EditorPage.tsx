@@ -4,13 +4,72 @@ import type React from "react"
 import { useEffect, useRef, useState, useCallback } from "react"
 import { Link } from "react-router-dom"
 import { Button } from "@/components/ui/button"
-import { Home, Settings, Save, Upload, Download } from "lucide-react"
+import { Home, Settings, Save, Upload, Download, Play, Pause, SkipBack, Repeat, Undo2, Redo2, Plus, ChevronUp, ChevronDown, Trash2, Search, X, SlidersHorizontal } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { useTheme } from "@/hooks/use-theme"
 import { useI18n } from "@/lib/i18n/context"
 import * as THREE from "three"
-import * as ADOFAI from "adofai"
-import Hjson from "hjson"
-import createTrackMesh from "@/lib/Geo/mesh_reserve"
+import { isSameTrackMeshStyle, type TrackMeshStyle } from "@/lib/Geo/mesh_reserve"
+import { buildTrackMeshStyles } from "@/lib/Geo/track_style"
+import { TILE_Z_STEP, TileChunkRenderer, type TileColor } from "@/lib/Geo/tile_chunks"
+import { DecorationLayer } from "@/lib/Geo/decorations"
+import { BackgroundLayer } from "@/lib/Geo/background"
+import { FreeRoamLayer } from "@/lib/Geo/free_roam"
+import { EFFECT_EVENT_TYPES, EffectPipeline } from "@/lib/Geo/effects"
+import type { TileMeshInput } from "@/lib/Geo/chunk_geometry"
+import {
+  buildTimeline,
+  findTileAtTime,
+  getOrbitState,
+  getEventTiming,
+  getPlanetInteriorAngle,
+  getTilePosition,
+  getTimelineDuration,
+  MIDSPIN_ANGLE,
+  type TileTiming,
+} from "@/lib/Player/timeline"
+import { SongPlayer } from "@/lib/Player/audio"
+import { buildHitsounds, HitsoundScheduler, type HitsoundEvent } from "@/lib/Player/hitsound"
+import { TrackColorState } from "@/lib/Player/track_color"
+import { IDENTITY_TRANSFORM, TrackTransformState } from "@/lib/Player/track_transform"
+import { CameraTimeline } from "@/lib/Player/camera"
+import { TweenScheduler } from "@/lib/Player/tween"
+import { getHold } from "@/lib/Player/hold"
+import { buildFreeRoamSections, getFreeRoamState, type FreeRoamSection } from "@/lib/Player/free_roam"
+import { collectDroppedFiles, findFileByName, findLevelFile } from "@/lib/Player/level_files"
+import {
+  JUDGEMENTS,
+  JUDGEMENT_COLORS,
+  JudgementTracker,
+  type JudgementResult,
+  type JudgementSummary,
+} from "@/lib/Player/judgement"
+import {
+  createTile,
+  insertAction,
+  insertTiles,
+  moveAction,
+  removeAction,
+  removeTiles,
+  syncTiles,
+  type Tile,
+} from "@/lib/Editor/level_edit"
+import { EditHistory, createPropertyCommand, type EditCommand } from "@/lib/Editor/history"
+import {
+  ACTION_SCHEMAS,
+  createAction,
+  getActionBadge,
+  getActionFields,
+  type AdofaiAction,
+} from "@/lib/Editor/action_schema"
+import { HEX_COLOR_PATTERN, isToggleOn, toToggleValue, type FieldSpec } from "@/lib/Editor/fields"
+import { getInputAngle } from "@/lib/Editor/angle_input"
+import { getSettingsGroups } from "@/lib/Editor/settings_schema"
+import { getWorkerPool } from "@/lib/Worker/pool"
+import { loadLevel } from "@/lib/Worker/level_loader"
 import example from "@/lib/example/line.json"
 import type { JSX } from "react/jsx-runtime"
 
@@ -30,6 +89,9 @@ enum PlaybackState {
   PLAYING = "playing",
 }
 
+// 编辑工具：select 点击/框选砖块，move 拖拽平移视图
+export type EditorTool = "select" | "move"
+
 // 星球接口
 interface Planet {
   id: number
@@ -40,6 +102,51 @@ interface Planet {
   tileIndex: number
 }
 
+// 播放进度信息，供播放控制栏显示
+interface PlaybackInfo {
+  time: number
+  duration: number
+  tileIndex: number
+  tileCount: number
+}
+
+// A/B 循环区间（砖块索引）
+interface LoopRegion {
+  start: number
+  end: number
+}
+
+// 星球公转半径，等于相邻砖块的间距
+const PLANET_ORBIT_RADIUS = 1
+
+// 游戏内星球的默认颜色：红、蓝、绿，更多星球沿用游戏的预设颜色
+const PLANET_COLORS = [0xff0000, 0x0000ff, 0x00ff00, 0xffff00, 0x9400ff, 0xff69b4, 0xff8000, 0x00ffff]
+
+// 选中砖块的高亮颜色
+const SELECTION_COLOR = 0x60a5fa
+
+// 歌曲 RMS 响度到 Volume 轨道颜色插值系数的放大倍数
+const TRACK_VOLUME_GAIN = 3
+
+// 编辑视图 zoom 为 1 时的可视高度（格）
+const EDITOR_VIEW_HEIGHT = 20
+
+// 播放时摄像机缩放为 100% 时的可视高度（格），与游戏内的默认视野一致
+const PLAYBACK_VIEW_HEIGHT = 20 / 3
+
+// 载入进度中读取文件所占的比例，其余为解析
+const FILE_READ_PROGRESS = 0.2
+
+// 练习模式下不算作按键的修饰键
+const MODIFIER_KEYS = new Set(["Shift", "Control", "Alt", "Meta", "CapsLock", "Tab"])
+
+// 焦点在输入框或下拉选择（事件检查器中的 Select）中时不处理编辑快捷键
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return true
+  return target.closest('[role="combobox"], [role="listbox"]') !== null
+}
+
 // 通知系统组件
 function NotificationSystem(): JSX.Element {
   const [notifications, setNotifications] = useState<Array<{ id: number; type: string; message: string }>>([])
@@ -94,8 +201,14 @@ class Previewer {
   private zoom = 1
   private minZoom = 0
   private maxZoom = 240
-  private tiles: Map<string, THREE.Mesh> = new Map()
-  private visibleTiles: Set<string> = new Set()
+  // 分块渲染的轨道
+  private tileChunks: TileChunkRenderer | null = null
+  private decorations: DecorationLayer | null = null
+  private background: BackgroundLayer | null = null
+  private freeRoamLayer: FreeRoamLayer | null = null
+  private effects: EffectPipeline | null = null
+  // 屏幕特效开关，低配设备可以关闭
+  private effectsEnabled = true
   private tileLimit = 0
   private adofaiFile: any
   private boundEventHandlers: Record<string, (event?: any) => void>
@@ -103,7 +216,26 @@ class Previewer {
   private camera: THREE.OrthographicCamera | null = null
   private renderer: THREE.WebGLRenderer | null = null
   private tileGeometry: THREE.BoxGeometry | null = null
-  private tileMaterials: THREE.MeshBasicMaterial[] | null = null
+  // 轨道颜色与每个砖块的网格样式，随时间轴一起重建
+  private trackColors: TrackColorState | null = null
+  // PositionTrack、MoveTrack 与 AnimateTrack 决定的砖块变换
+  private trackTransforms: TrackTransformState | null = null
+  // 按 FreeRoam 砖块编号索引的自由移动段
+  private freeRoams: Map<number, FreeRoamSection> = new Map()
+  private cameraTimeline: CameraTimeline | null = null
+  // 播放中按时间推进的事件补间（MoveDecorations、MoveTrack、CustomBackground、屏幕特效等），停止时恢复原状
+  private eventTweens: TweenScheduler = new TweenScheduler(() => {
+    this.decorations?.resetTransforms()
+    this.trackTransforms?.reset()
+    this.background?.reset()
+    this.effects?.reset()
+  })
+  private tileStyles: TrackMeshStyle[] = []
+  // 计算动画颜色使用的时间（秒）与歌曲响度，每次批量更新颜色前采样一次
+  private trackColorTime = 0
+  private trackColorVolume = 0
+  // 事件图标材质，按图标缓存
+  private badgeMaterials: Map<string, THREE.SpriteMaterial> = new Map()
   private initialPinchDistance = 0
   private initialZoom = 0
   private t: (key: string) => string
@@ -112,12 +244,32 @@ class Previewer {
   private planets: Planet[] = []
   private planetsCount = 2
   private currentBpm = 120
-  private rotationSpeed = 0 // 弧度每毫秒
-  private isClockwise = true
-  private centerPlanetIndex = 0
-  private gameStartTime = 0
+  private timeline: TileTiming[] = []
+  private startTileIndex = 0
+  private startMarker: THREE.Mesh | null = null
+  private raycaster: THREE.Raycaster = new THREE.Raycaster()
+  private mouseDownPosition: { x: number; y: number } = { x: 0, y: 0 }
+  private onStartTileChange?: (index: number) => void
+  private tool: EditorTool = "move"
+  private selectedTiles: Set<number> = new Set()
+  private isBoxSelecting = false
+  private selectionBox: HTMLElement | null = null
+  // Tab 切换的备用角度布局
+  private alternateAngleLayout = false
+  private layoutBadge: HTMLElement | null = null
+  private onSelectionChange?: (indices: number[]) => void
+  private onLevelChange?: () => void
+  // 编辑历史随 Previewer 存在，切换播放状态不会丢失
+  private history: EditHistory = new EditHistory(() => this.onLevelChange?.())
+  private songPlayer: SongPlayer = new SongPlayer()
+  private hitsoundScheduler: HitsoundScheduler = new HitsoundScheduler(this.songPlayer)
+  private hitsounds: HitsoundEvent[] = []
+  private loopRegion: LoopRegion | null = null
+  // 练习模式：播放时由按键判定命中
+  private inputMode = false
+  private judgementTracker: JudgementTracker | null = null
+  private judgementPopups: Set<HTMLElement> = new Set()
   private currentTileIndex = 0
-  private pauseButton: HTMLButtonElement | null = null
   private onPlaybackStateChange?: (state: PlaybackState) => void
 
   private particles: THREE.Points[] = []
@@ -132,6 +284,9 @@ class Previewer {
     info: HTMLElement,
     t: (key: string) => string,
     onPlaybackStateChange?: (state: PlaybackState) => void,
+    onStartTileChange?: (index: number) => void,
+    onSelectionChange?: (indices: number[]) => void,
+    onLevelChange?: () => void,
   ) {
     this.container = container
     this.fpsCounter = fpsCounter
@@ -139,10 +294,12 @@ class Previewer {
     this.adofaiFile = adofaiFile
     this.t = t
     this.onPlaybackStateChange = onPlaybackStateChange
+    this.onStartTileChange = onStartTileChange
+    this.onSelectionChange = onSelectionChange
+    this.onLevelChange = onLevelChange
 
     // 获取BPM
     this.currentBpm = this.adofaiFile?.settings?.bpm || 120
-    this.updateRotationSpeed()
 
     // 绑定事件处理函数到实例
     this.boundEventHandlers = {
@@ -163,17 +320,9 @@ class Previewer {
     this.animate()
   }
 
-  // 更新旋转速度
-  private updateRotationSpeed(): void {
-    // 1圈/120BPM = 2π弧度 / (60000ms/120) = 2π / 500ms
-    this.rotationSpeed = (2 * Math.PI) / (60000 / this.currentBpm)
-  }
-
   // 颜色计算函数
   private calculatePlanetColor(index: number, totalCount: number): THREE.Color {
-    if (index === 0) return new THREE.Color(0xff0000) // 红色
-    if (index === 1) return new THREE.Color(0x0000ff) // 蓝色
-
+    if (index < PLANET_COLORS.length) return new THREE.Color(PLANET_COLORS[index])
 
     const hue = ((index * 360) / totalCount) % 360
     const color = new THREE.Color()
@@ -186,10 +335,12 @@ class Previewer {
     centerY: number,
     radius: number,
     count: number,
+    startAngle = 0,
+    clockwise = false,
   ): Array<{ x: number; y: number }> {
     const vertices = []
     for (let i = 0; i < count; i++) {
-      const angle = (i * 2 * Math.PI) / count
+      const angle = startAngle + ((clockwise ? -i : i) * 2 * Math.PI) / count
       vertices.push({
         x: centerX + radius * Math.cos(angle),
         y: centerY + radius * Math.sin(angle),
@@ -212,20 +363,11 @@ class Previewer {
       return
     }
 
-    const tile0 = this.adofaiFile.tiles[0]
-    const tile1 = this.adofaiFile.tiles[1]
-    if (!tile0 || !tile1) {
-      console.log("Tiles not found:", { tile0, tile1 })
-      return
-    }
-
-    const [x0, y0] = tile0.position
-    const [x1, y1] = tile1.position
+    // 按整首歌最多的星球数量创建，当前用不到的星球隐藏
+    const startTile = this.startTileIndex
+    this.planetsCount = this.timeline.reduce((count, timing) => Math.max(count, timing.planetCount), 2)
 
-    console.log("Creating planets at positions:", { x0, y0, x1, y1 })
-
-    // 创建更大的星球几何体
-    const planetGeometry = new THREE.SphereGeometry(0.8, 32, 32) // 增大球体并提高细节
+    const planetGeometry = new THREE.SphereGeometry(0.25, 32, 32)
 
     for (let i = 0; i < this.planetsCount; i++) {
       const color = this.calculatePlanetColor(i, this.planetsCount)
@@ -237,19 +379,6 @@ class Previewer {
       })
 
       const mesh = new THREE.Mesh(planetGeometry, material)
-
-      if (i === 0) {
-        mesh.position.set(x0, y0, 5)
-      } else if (i === 1) {
-        mesh.position.set(x1, y1, 5)
-      } else {
-        // 其他球暂时隐藏
-        mesh.visible = false
-        mesh.position.set(0, 0, 5)
-      }
-
-      // 确保球体可见
-      mesh.visible = true
       mesh.castShadow = true
       mesh.receiveShadow = true
 
@@ -257,19 +386,20 @@ class Previewer {
         id: i,
         mesh,
         color,
-        angle: i === 0 ? 0 : Math.PI,
-        isCenter: i === 0,
-        tileIndex: i,
+        angle: 0,
+        isCenter: false,
+        tileIndex: startTile,
       }
 
       this.planets.push(planet)
       this.scene.add(mesh)
 
       this.planetTrails.set(i, [])
-
-      console.log(`Created planet ${i} at position:`, mesh.position, "Color:", color, "Visible:", mesh.visible)
     }
 
+    const startAngle = this.timeline[startTile]?.startAngle ?? Math.PI
+    this.layoutPlanets(startTile, startAngle, getTilePosition(this.adofaiFile, startTile))
+
     this.initParticleSystem()
 
     console.log("Total planets created:", this.planets.length)
@@ -288,12 +418,18 @@ class Previewer {
     })
   }
 
-  private updateParticleTrails(deltaTime: number): void {
+  private updateParticleTrails(): void {
     if (this.playbackState !== PlaybackState.PLAYING) return
 
     const currentTime = performance.now()
 
     this.planets.forEach((planet) => {
+      // 隐藏的星球不留拖尾，重新出现时从新位置开始
+      if (!planet.mesh.visible) {
+        this.planetTrails.set(planet.id, [])
+        return
+      }
+
       const trailArray = this.planetTrails.get(planet.id) || []
 
       // 添加当前位置到拖尾
@@ -366,128 +502,827 @@ class Previewer {
     })
   }
 
-  private updatePlanets(deltaTime: number): void {
-    if (this.playbackState !== PlaybackState.PLAYING || this.planets.length === 0) return
+  // 载入关卡的歌曲（songFilename 对应的文件）
+  public async loadSong(data: ArrayBuffer): Promise<void> {
+    await this.songPlayer.load(data)
+  }
 
-    const centerPlanet = this.planets[this.centerPlanetIndex]
-    if (!centerPlanet) return
+  // 从关卡文件夹载入装饰与背景图片，返回缺失或无法读取的文件名
+  public async loadLevelImages(files: File[]): Promise<string[]> {
+    const missing = new Set<string>()
+    for (const layer of [this.decorations, this.background]) {
+      if (!layer) continue
+      for (const name of layer.getImageNames(this.adofaiFile)) {
+        const file = findFileByName(files, name)
+        if (!file) {
+          missing.add(name)
+          continue
+        }
+        try {
+          await layer.setImage(name, file)
+        } catch (error) {
+          console.error("Level image load error:", name, error)
+          missing.add(name)
+        }
+        if (this.isDisposed) return []
+      }
+    }
+    return Array.from(missing)
+  }
+
+  // 按当前关卡重建装饰，轨道下方的装饰放在最后一块砖之后
+  private rebuildDecorations(): void {
+    const tileCount = this.adofaiFile?.tiles?.length || 0
+    this.decorations?.build(
+      this.adofaiFile,
+      (index) => getTilePosition(this.adofaiFile, index),
+      -tileCount * TILE_Z_STEP,
+    )
+    this.decorations?.setCamera(this.cameraPosition.x, this.cameraPosition.y)
+  }
 
-    const centerPos = centerPlanet.mesh.position
-    const rotationDelta = this.rotationSpeed * deltaTime * (this.isClockwise ? 1 : -1)
+  // 当前的轨道时间（毫秒），第 0 块在歌曲的 offset 处被命中，由音频时钟驱动
+  private getPlaybackTime(): number {
+    return this.songPlayer.getPosition() - (this.adofaiFile?.settings?.offset || 0)
+  }
 
-    this.planets.forEach((planet, index) => {
-      if (index === this.centerPlanetIndex) return
+  // 从起始砖块对应的歌曲位置开始播放
+  private startSong(): void {
+    const settings = this.adofaiFile?.settings || {}
+    const offset = settings.offset || 0
+    const startTime = this.timeline[this.startTileIndex]?.time ?? 0
+    this.songPlayer.setVolume(settings.volume ?? 100)
+    this.songPlayer.setPitch(settings.pitch ?? 100)
+    this.hitsounds = buildHitsounds(this.adofaiFile, this.timeline)
+    this.songPlayer.play(this.startTileIndex > 0 ? offset + startTime : 0)
+    this.hitsoundScheduler.start(this.getScheduledHitsounds(), offset, this.startTileIndex)
+  }
+
+  // 练习模式下打击音随按键播放，不再自动调度
+  private getScheduledHitsounds(): HitsoundEvent[] {
+    return this.inputMode ? [] : this.hitsounds
+  }
+
+  // 开启或关闭屏幕特效（Flash、Bloom、ShakeScreen、SetFilter）
+  public setEffectsEnabled(enabled: boolean): void {
+    this.effectsEnabled = enabled
+    this.effects?.setEnabled(enabled)
+  }
+
+  // 开启或关闭练习模式，下一次播放时生效
+  public setInputMode(enabled: boolean): void {
+    this.inputMode = enabled
+  }
+
+  // 最近一次练习的判定统计，没有练习过时返回 null
+  public getJudgementSummary(): JudgementSummary | null {
+    return this.judgementTracker?.getSummary() ?? null
+  }
+
+  // 处理练习模式下的一次按键
+  private handleHitInput(): void {
+    if (!this.judgementTracker) return
+
+    const result = this.judgementTracker.press(this.getPlaybackTime())
+    if (!result) return
+
+    if (result.judgement !== "TooEarly") {
+      const context = this.songPlayer.getContext()
+      const hitsound = this.hitsounds.find((event) => event.tileIndex === result.tileIndex)
+      if (context && hitsound) {
+        this.hitsoundScheduler.playHitsound(context, hitsound.hitsound, hitsound.volume, context.currentTime)
+      }
+    }
+    this.showJudgement(result)
+  }
+
+  // 在判定的砖块附近显示判定文字，短暂上浮后消失
+  private showJudgement(result: JudgementResult): void {
+    if (!this.camera || !this.renderer) return
+
+    const [x, y] = getTilePosition(this.adofaiFile, result.tileIndex)
+    const projected = new THREE.Vector3(x, y, 0).project(this.camera)
+    const canvasRect = this.renderer.domElement.getBoundingClientRect()
+    const containerRect = this.container.getBoundingClientRect()
+    const left = canvasRect.left - containerRect.left + ((projected.x + 1) / 2) * canvasRect.width
+    const top = canvasRect.top - containerRect.top + ((1 - projected.y) / 2) * canvasRect.height
+
+    const popup = document.createElement("div")
+    popup.textContent = this.t(`editor.judgement.${result.judgement}`)
+    popup.style.cssText = `
+      position: absolute;
+      left: ${left}px;
+      top: ${top - 40}px;
+      transform: translateX(-50%);
+      color: ${JUDGEMENT_COLORS[result.judgement]};
+      font-size: 18px;
+      font-weight: bold;
+      text-shadow: 0 0 4px rgba(0, 0, 0, 0.8);
+      pointer-events: none;
+      transition: opacity 0.5s ease-out, top 0.5s ease-out;
+      z-index: 20;
+    `
+    this.container.appendChild(popup)
+    this.judgementPopups.add(popup)
+
+    requestAnimationFrame(() => {
+      popup.style.top = `${top - 70}px`
+      popup.style.opacity = "0"
+    })
+    setTimeout(() => this.removeJudgementPopup(popup), 500)
+  }
 
-      planet.angle += rotationDelta
+  private removeJudgementPopup(popup: HTMLElement): void {
+    popup.remove()
+    this.judgementPopups.delete(popup)
+  }
+
+  private clearJudgementPopups(): void {
+    this.judgementPopups.forEach((popup) => popup.remove())
+    this.judgementPopups.clear()
+  }
+
+  // 重新计算时间轴、轨道颜色、砖块变换与自由移动段（关卡修改后调用）
+  public refreshTimeline(): void {
+    const isPlaying = this.playbackState === PlaybackState.PLAYING
+    this.timeline = buildTimeline(this.adofaiFile)
+    this.updateTileStyles()
+    this.trackColors = new TrackColorState(this.adofaiFile, this.timeline)
+    this.trackColors.seek(isPlaying ? this.getPlaybackTime() : -Infinity)
+    this.recolorTiles()
+    this.trackTransforms = new TrackTransformState(this.adofaiFile, this.timeline)
+    this.trackTransforms.setAnimationTime(isPlaying ? this.getPlaybackTime() : null)
+    this.trackTransforms.takeDirty()
+    this.tileChunks?.updateTransforms()
+    this.freeRoams = buildFreeRoamSections(this.adofaiFile, this.timeline)
+    this.freeRoamLayer?.build(this.freeRoams.values(), (index) => this.getTileColor(index).color)
+    this.cameraTimeline = new CameraTimeline(this.adofaiFile, this.timeline)
+  }
 
-      const radius = 3.0
-      const x = centerPos.x + radius * Math.cos(planet.angle)
-      const y = centerPos.y + radius * Math.sin(planet.angle)
+  // 按当前关卡重新安排事件补间
+  private scheduleEventTweens(): void {
+    this.eventTweens.clear()
+    const tiles = this.adofaiFile?.tiles || []
+    tiles.forEach((tile: any, tileIndex: number) => {
+      const timing = this.timeline[tileIndex]
+      if (!timing) return
+      for (const action of tile.actions || []) {
+        if (action.eventType === "MoveDecorations" && this.decorations) {
+          const { start, duration } = getEventTiming(timing, action)
+          this.eventTweens.add(this.decorations.createMoveTween(action, start, duration))
+        } else if (action.eventType === "MoveTrack" && this.trackTransforms) {
+          const { start, duration } = getEventTiming(timing, action)
+          this.eventTweens.add(this.trackTransforms.createMoveTween(action, tileIndex, start, duration))
+        } else if (action.eventType === "CustomBackground" && this.background) {
+          this.eventTweens.add(this.background.createChangeTween(action, getEventTiming(timing, action).start))
+        } else if (EFFECT_EVENT_TYPES.includes(action.eventType) && this.effects) {
+          const { start, duration } = getEventTiming(timing, action)
+          const tween = this.effects.createTween(action, start, duration)
+          if (tween) this.eventTweens.add(tween)
+        }
+      }
+    })
+  }
 
-      planet.mesh.position.set(x, y, 5)
+  // 重新计算砖块的网格样式，样式改变的砖块所在分块重新生成
+  private updateTileStyles(): void {
+    const previous = this.tileStyles
+    this.tileStyles = buildTrackMeshStyles(this.adofaiFile)
 
-      this.checkPlanetTileTransition(planet, index)
+    const changed: number[] = []
+    this.tileStyles.forEach((style, index) => {
+      if (!previous[index] || !isSameTrackMeshStyle(previous[index], style)) changed.push(index)
     })
+    this.tileChunks?.invalidateTiles(changed)
+  }
 
-    this.updateParticleTrails(deltaTime)
+  public getPlaybackInfo(): PlaybackInfo {
+    const isPlaying = this.playbackState === PlaybackState.PLAYING
+    return {
+      time: isPlaying ? this.getPlaybackTime() : (this.timeline[this.startTileIndex]?.time ?? 0),
+      duration: getTimelineDuration(this.timeline),
+      tileIndex: isPlaying ? this.currentTileIndex : this.startTileIndex,
+      tileCount: this.timeline.length,
+    }
   }
 
-  private checkPlanetTileTransition(planet: Planet, planetIndex: number): void {
-    const nextTileIndex = this.centerPlanetIndex + 1
-    const nextTile = this.adofaiFile.tiles[nextTileIndex]
+  /**
+   * 跳转到轨道时间 time（毫秒）
+   * 播放中会重新定位歌曲与打击音，暂停时则移动播放起点
+   */
+  public seek(time: number): void {
+    const tileIndex = findTileAtTime(this.timeline, time)
+    if (this.playbackState !== PlaybackState.PLAYING) {
+      this.setStartTile(tileIndex)
+      return
+    }
 
-    if (!nextTile) return
+    const offset = this.adofaiFile?.settings?.offset || 0
+    this.songPlayer.play(offset + Math.max(time, 0))
+    this.hitsoundScheduler.start(this.getScheduledHitsounds(), offset, time > 0 ? tileIndex : 0)
+    this.judgementTracker?.seek(time > 0 ? tileIndex : 0)
+    this.trackColors?.seek(time)
+    this.recolorTiles()
+    this.eventTweens.seek(time)
+    this.updateTrackTransforms(time)
+    this.clearParticles()
+  }
 
-    const [tileX, tileY] = nextTile.position
-    const planetPos = planet.mesh.position
-    const distance = Math.sqrt(Math.pow(planetPos.x - tileX, 2) + Math.pow(planetPos.y - tileY, 2))
+  // 播放速度倍率（0.25-2），preservePitch 为 true 时变速不变调
+  public setPlaybackRate(rate: number, preservePitch: boolean): void {
+    this.songPlayer.setSpeed(rate, preservePitch)
+  }
 
-    if (distance < 0.5) {
-      this.centerPlanetIndex = planetIndex
-      this.currentTileIndex = nextTileIndex
+  // 设置 A/B 循环区间，传入 null 取消循环
+  public setLoopRegion(start: number | null, end: number | null): void {
+    if (start === null || end === null || start === end) {
+      this.loopRegion = null
+      return
+    }
+    this.loopRegion = { start: Math.min(start, end), end: Math.max(start, end) }
+  }
 
-      this.processActionsAtTile(nextTileIndex)
+  // 设置播放起点，并在编辑视图中标记
+  public setStartTile(index: number): void {
+    const tileCount = this.adofaiFile?.tiles?.length || 0
+    this.startTileIndex = Math.max(0, Math.min(index, tileCount - 1))
+    this.updateStartMarker()
+    this.onStartTileChange?.(this.startTileIndex)
+  }
 
-      this.recalculatePlanetAngles()
+  // 从指定砖块开始播放
+  public playFrom(index: number): void {
+    if (this.playbackState === PlaybackState.PLAYING) {
+      this.setPlaybackState(PlaybackState.HOLDING)
     }
+    this.setStartTile(index)
+    this.setPlaybackState(PlaybackState.PLAYING)
   }
 
-  private recalculatePlanetAngles(): void {
-    const centerPlanet = this.planets[this.centerPlanetIndex]
-    if (!centerPlanet) return
+  private updateStartMarker(): void {
+    if (!this.scene) return
 
-    this.planets.forEach((planet, index) => {
-      if (index === this.centerPlanetIndex) return
+    if (!this.startMarker) {
+      const geometry = new THREE.RingGeometry(0.32, 0.42, 32)
+      const material = new THREE.MeshBasicMaterial({ color: 0x22c55e, side: THREE.DoubleSide })
+      this.startMarker = new THREE.Mesh(geometry, material)
+      this.scene.add(this.startMarker)
+    }
 
-      const dx = planet.mesh.position.x - centerPlanet.mesh.position.x
-      const dy = planet.mesh.position.y - centerPlanet.mesh.position.y
-      planet.angle = Math.atan2(dy, dx)
-    })
+    const [x, y] = getTilePosition(this.adofaiFile, this.startTileIndex)
+    this.startMarker.position.set(x, y, 1)
+    this.startMarker.visible = this.playbackState === PlaybackState.HOLDING
   }
 
-  private processActionsAtTile(tileIndex: number): void {
-    const pauseActions = this.adofaiFile.getActionsByIndex?.("Pause", tileIndex)
-    if (pauseActions?.count > 0) {
-      const duration = pauseActions.actions[0]?.duration || 0
-      const extraRotation = (duration / 2) * 2 * Math.PI
-      this.planets.forEach((planet) => {
-        if (planet.id !== this.centerPlanetIndex) {
-          planet.angle += extraRotation * (this.isClockwise ? 1 : -1)
-        }
-      })
+  // 拾取屏幕坐标下的砖块
+  private pickTile(clientX: number, clientY: number): number | null {
+    if (!this.camera || !this.renderer) return null
+
+    const rect = this.renderer.domElement.getBoundingClientRect()
+    const pointer = new THREE.Vector2(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1,
+    )
+    this.raycaster.setFromCamera(pointer, this.camera)
+    return this.tileChunks?.pick(this.raycaster) ?? null
+  }
+
+  // 屏幕坐标转换为世界坐标
+  private screenToWorld(clientX: number, clientY: number): THREE.Vector3 {
+    const rect = this.renderer!.domElement.getBoundingClientRect()
+    const point = new THREE.Vector3(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1,
+      0,
+    )
+    return point.unproject(this.camera!)
+  }
+
+  // 框选：返回两个屏幕坐标围成的矩形内的砖块
+  private getTilesInRect(x1: number, y1: number, x2: number, y2: number): number[] {
+    if (!this.camera || !this.renderer) return []
+
+    const a = this.screenToWorld(x1, y1)
+    const b = this.screenToWorld(x2, y2)
+    const minX = Math.min(a.x, b.x)
+    const maxX = Math.max(a.x, b.x)
+    const minY = Math.min(a.y, b.y)
+    const maxY = Math.max(a.y, b.y)
+    return this.tileChunks?.queryRect(minX, minY, maxX, maxY) ?? []
+  }
+
+  private updateSelectionBox(clientX: number, clientY: number): void {
+    if (!this.selectionBox) {
+      this.selectionBox = document.createElement("div")
+      this.selectionBox.style.cssText = `
+        position: absolute;
+        border: 1px dashed #3b82f6;
+        background: rgba(59, 130, 246, 0.15);
+        pointer-events: none;
+        z-index: 5;
+      `
+      this.container.appendChild(this.selectionBox)
+    }
+
+    const containerRect = this.container.getBoundingClientRect()
+    const start = this.mouseDownPosition
+    this.selectionBox.style.left = `${Math.min(start.x, clientX) - containerRect.left}px`
+    this.selectionBox.style.top = `${Math.min(start.y, clientY) - containerRect.top}px`
+    this.selectionBox.style.width = `${Math.abs(clientX - start.x)}px`
+    this.selectionBox.style.height = `${Math.abs(clientY - start.y)}px`
+  }
+
+  private removeSelectionBox(): void {
+    this.selectionBox?.remove()
+    this.selectionBox = null
+  }
+
+  public setTool(tool: EditorTool): void {
+    this.tool = tool
+  }
+
+  public getSelection(): number[] {
+    return [...this.selectedTiles].sort((a, b) => a - b)
+  }
+
+  // 设置选中的砖块，并更新高亮
+  public setSelection(indices: number[]): void {
+    const tileCount = this.adofaiFile?.tiles?.length || 0
+    const previous = this.selectedTiles
+    this.selectedTiles = new Set(indices.filter((index) => index >= 0 && index < tileCount))
+
+    previous.forEach((index) => this.updateTileMaterial(index))
+    this.selectedTiles.forEach((index) => this.updateTileMaterial(index))
+    this.onSelectionChange?.(this.getSelection())
+  }
+
+  private toggleSelection(index: number): void {
+    const next = new Set(this.selectedTiles)
+    if (next.has(index)) {
+      next.delete(index)
+    } else {
+      next.add(index)
+    }
+    this.setSelection([...next])
+  }
+
+  // 砖块的显示颜色：选中时为高亮色，否则由轨道颜色决定
+  private getTileColor(index: number): TileColor {
+    if (this.selectedTiles.has(index)) return { color: SELECTION_COLOR, opacity: 1 }
+    return (
+      this.trackColors?.getColor(index, this.trackColorTime, this.trackColorVolume) ?? { color: 0xdebb7b, opacity: 1 }
+    )
+  }
+
+  // 编辑视图中颜色动画停在 0 时刻
+  private sampleTrackColorClock(): void {
+    const isPlaying = this.playbackState === PlaybackState.PLAYING
+    this.trackColorTime = isPlaying ? this.getPlaybackTime() / 1000 : 0
+    this.trackColorVolume = isPlaying ? this.songPlayer.getLevel() * TRACK_VOLUME_GAIN : 0
+  }
+
+  private updateTileMaterial(index: number): void {
+    this.sampleTrackColorClock()
+    this.tileChunks?.updateColors([index])
+  }
+
+  // 重新计算所有已生成砖块的颜色
+  private recolorTiles(): void {
+    this.sampleTrackColorClock()
+    this.tileChunks?.updateColors()
+  }
+
+  /**
+   * 推进砖块的出现与消失动画到 time（毫秒），null 表示编辑视图（所有砖块可见）
+   * 只更新变换改变过的砖块
+   */
+  private updateTrackTransforms(time: number | null): void {
+    if (!this.trackTransforms) return
+    this.trackTransforms.setAnimationTime(time)
+    const dirty = this.trackTransforms.takeDirty()
+    if (dirty === null) {
+      this.tileChunks?.updateTransforms()
+    } else if (dirty.length > 0) {
+      this.tileChunks?.updateTransforms(dirty)
     }
+  }
+
+  // 播放中应用到期的 RecolorTrack，并推进动画颜色
+  private updateTrackColors(): void {
+    if (!this.trackColors) return
+    if (this.trackColors.update(this.getPlaybackTime()) || this.trackColors.hasAnimation()) {
+      this.recolorTiles()
+    }
+  }
 
-    const speedActions = this.adofaiFile.getActionsByIndex?.("SetSpeed", tileIndex)
-    if (speedActions?.count > 0) {
-      const action = speedActions.actions[0]
-      if (action.speedType === "Multiplier") {
-        this.currentBpm *= action.bpmMultiplier || 1
-      } else if (action.speedType === "Bpm") {
-        this.currentBpm = action.beatsPerMinute || this.currentBpm
+  /**
+   * 在选中的最后一个砖块之后（没有选中时在末尾）添加一个砖块
+   * 不指定 direction 时方向与前一块相同
+   */
+  public addTile(direction?: number): void {
+    const tiles = this.adofaiFile?.tiles
+    if (!tiles || tiles.length === 0) return
+
+    const selection = this.getSelection()
+    const after = selection.length > 0 ? selection[selection.length - 1] : tiles.length - 1
+    const index = after + 1
+
+    // 中旋砖块没有方向，沿用之前最近的普通砖块方向
+    let source = after
+    while (source > 0 && tiles[source].direction === MIDSPIN_ANGLE) source--
+    const previousDirection: number = tiles[source].direction === MIDSPIN_ANGLE ? 0 : (tiles[source].direction ?? 0)
+
+    const tile = createTile(direction ?? previousDirection)
+    this.history.execute({
+      apply: () => {
+        this.insertTilesAt(index, [tile])
+        this.setSelection([index])
+        this.ensureTileVisible(index)
+      },
+      revert: () => {
+        this.removeTilesAt(index, 1)
+        this.setSelection(selection)
+      },
+    })
+  }
+
+  /**
+   * 删除选中的砖块，连续的砖块一次删除，整体作为一个撤销步骤
+   */
+  public removeSelectedTiles(): void {
+    const selection = this.getSelection().filter((index) => index > 0)
+    if (selection.length === 0) return
+
+    this.history.transact(() => {
+      // 从后往前按连续区间删除，前面的索引不受影响
+      let end = selection.length - 1
+      while (end >= 0) {
+        let start = end
+        while (start > 0 && selection[start - 1] === selection[start] - 1) start--
+
+        const index = selection[start]
+        const count = end - start + 1
+        let removed: Tile[] = []
+        this.history.execute({
+          apply: () => {
+            removed = this.removeTilesAt(index, count)
+          },
+          revert: () => this.insertTilesAt(index, removed),
+        })
+        end = start - 1
       }
-      this.updateRotationSpeed()
-    }
-
-    const twirlActions = this.adofaiFile.getActionsByIndex?.("Twirl", tileIndex)
-    if (twirlActions?.count > 0) {
-      this.isClockwise = !this.isClockwise
-    }
-  }
-
-  private createPauseButton(): void {
-    if (this.pauseButton) return
-
-    this.pauseButton = document.createElement("button")
-    this.pauseButton.innerHTML = "⏸️"
-    this.pauseButton.style.cssText = `
-      position: fixed;
-      top: 20px;
-      right: 20px;
-      width: 60px;
-      height: 60px;
-      background: rgba(128, 128, 128, 0.7);
-      border: none;
-      border-radius: 50%;
-      font-size: 24px;
-      cursor: pointer;
-      z-index: 1000;
-      display: flex;
-      align-items: center;
-      justify-content: center;
+    })
+    this.setSelection([])
+  }
+
+  /**
+   * 键盘角度输入：方向键放置砖块，S 放置中旋，Tab 切换备用布局
+   * 返回 true 表示按键已被处理
+   */
+  private handleAngleInput(event: KeyboardEvent): boolean {
+    if (!this.adofaiFile?.tiles) return false
+
+    if (event.code === "Tab") {
+      // 焦点在按钮等其他控件上时保留 Tab 切换焦点的作用
+      if (!this.hasKeyboardFocus(event.target)) return false
+      this.alternateAngleLayout = !this.alternateAngleLayout
+      this.updateLayoutBadge()
+      return true
+    }
+
+    const direction = getInputAngle(event.code, event.shiftKey, this.alternateAngleLayout)
+    if (direction === null) return false
+    this.addTile(direction)
+    return true
+  }
+
+  // 键盘焦点在预览画面中或不在任何控件上（点击画布后焦点回到 body）
+  private hasKeyboardFocus(target: EventTarget | null): boolean {
+    if (target === document.body || target === document.documentElement) return true
+    return target instanceof Node && this.container.contains(target)
+  }
+
+  // 备用布局开启时在画面上方显示提示
+  private updateLayoutBadge(): void {
+    if (!this.alternateAngleLayout) {
+      this.layoutBadge?.remove()
+      this.layoutBadge = null
+      return
+    }
+    if (this.layoutBadge) return
+
+    this.layoutBadge = document.createElement("div")
+    this.layoutBadge.textContent = this.t("editor.angleInput.alternateLayout")
+    this.layoutBadge.style.cssText = `
+      position: absolute;
+      top: 16px;
+      left: 50%;
+      transform: translateX(-50%);
+      padding: 4px 8px;
+      border-radius: 4px;
+      background: rgba(59, 130, 246, 0.85);
+      color: white;
+      font-size: 14px;
+      pointer-events: none;
+      z-index: 5;
     `
+    this.container.appendChild(this.layoutBadge)
+  }
 
-    this.pauseButton.addEventListener("click", () => {
-      this.setPlaybackState(PlaybackState.HOLDING)
+  // 砖块不在视野内时移动视图到该砖块
+  private ensureTileVisible(index: number): void {
+    const containerSize = this.getContainerSize()
+    const frustumSize = 20 / this.zoom
+    const halfWidth = (frustumSize * containerSize.width) / containerSize.height / 2
+    const halfHeight = frustumSize / 2
+    const [x, y] = getTilePosition(this.adofaiFile, index)
+
+    if (Math.abs(x - this.cameraPosition.x) > halfWidth - 1 || Math.abs(y - this.cameraPosition.y) > halfHeight - 1) {
+      this.cameraPosition = { x, y }
+      this.updateCamera()
+    }
+  }
+
+  public getTileActions(tileIndex: number): AdofaiAction[] {
+    return this.adofaiFile?.tiles?.[tileIndex]?.actions || []
+  }
+
+  // 在砖块的事件列表末尾添加一个带默认值的事件
+  public addTileAction(tileIndex: number, eventType: string): void {
+    const action = createAction(eventType)
+    const actionIndex = this.getTileActions(tileIndex).length
+    this.history.execute({
+      apply: () => {
+        insertAction(this.adofaiFile, tileIndex, actionIndex, action)
+        this.afterActionEdit(tileIndex)
+      },
+      revert: () => {
+        removeAction(this.adofaiFile, tileIndex, actionIndex)
+        this.afterActionEdit(tileIndex)
+      },
+    })
+  }
+
+  public removeTileAction(tileIndex: number, actionIndex: number): void {
+    const action = this.getTileActions(tileIndex)[actionIndex]
+    if (!action) return
+    this.history.execute({
+      apply: () => {
+        removeAction(this.adofaiFile, tileIndex, actionIndex)
+        this.afterActionEdit(tileIndex)
+      },
+      revert: () => {
+        insertAction(this.adofaiFile, tileIndex, actionIndex, action)
+        this.afterActionEdit(tileIndex)
+      },
+    })
+  }
+
+  public moveTileAction(tileIndex: number, from: number, to: number): void {
+    const count = this.getTileActions(tileIndex).length
+    if (from < 0 || from >= count || to < 0 || to >= count || from === to) return
+    this.history.execute({
+      apply: () => {
+        moveAction(this.adofaiFile, tileIndex, from, to)
+        this.afterActionEdit(tileIndex)
+      },
+      revert: () => {
+        moveAction(this.adofaiFile, tileIndex, to, from)
+        this.afterActionEdit(tileIndex)
+      },
+    })
+  }
+
+  // 修改事件的一个字段，value 为 undefined 时删除该字段
+  public setTileActionField(tileIndex: number, actionIndex: number, key: string, value: unknown): void {
+    const action = this.getTileActions(tileIndex)[actionIndex]
+    if (!action || key === "eventType") return
+    this.history.execute(
+      createPropertyCommand(action, key, value, () => {
+        syncTiles(this.adofaiFile, tileIndex)
+        this.afterActionEdit(tileIndex)
+      }),
+    )
+  }
+
+  public getLevelSettings(): Record<string, any> {
+    return this.adofaiFile?.settings || {}
+  }
+
+  // 修改关卡设置的一个字段，作为一个撤销步骤
+  public setLevelSetting(key: string, value: unknown): void {
+    if (!this.adofaiFile) return
+    if (!this.adofaiFile.settings) this.adofaiFile.settings = {}
+    this.history.execute(createPropertyCommand(this.adofaiFile.settings, key, value, () => this.applySettings()))
+  }
+
+  // 设置修改后刷新依赖它的状态：时间轴、轨道颜色与样式、歌曲音量与音高
+  private applySettings(): void {
+    const settings = this.getLevelSettings()
+    this.refreshTimeline()
+    this.updateVisibleTiles()
+    this.updateStartMarker()
+    this.songPlayer.setVolume(settings.volume ?? 100)
+    this.songPlayer.setPitch(settings.pitch ?? 100)
+    this.background?.build(this.adofaiFile)
+  }
+
+  // 事件可能影响坐标（PositionTrack）与时间轴，重新定位砖块并重建该砖块的图标
+  private afterActionEdit(tileIndex: number): void {
+    this.applyTileEdit((index) => index, [tileIndex])
+  }
+
+  // 在带有事件的砖块上方显示图标，相同图标只显示一次
+  private createTileBadges(tileIndex: number, x: number, y: number, z: number): THREE.Object3D[] {
+    const actions = this.getTileActions(tileIndex)
+    if (actions.length === 0) return []
+
+    const badges = Array.from(new Set(actions.map((action) => getActionBadge(action.eventType)))).slice(0, 4)
+    return badges.map((badge, i) => {
+      const sprite = new THREE.Sprite(this.getBadgeMaterial(badge))
+      sprite.scale.set(0.28, 0.28, 1)
+      sprite.position.set(x + (i - (badges.length - 1) / 2) * 0.3, y, z + 2)
+      sprite.renderOrder = 10
+      return sprite
+    })
+  }
+
+  private getBadgeMaterial(badge: string): THREE.SpriteMaterial {
+    const cached = this.badgeMaterials.get(badge)
+    if (cached) return cached
+
+    const canvas = document.createElement("canvas")
+    canvas.width = 64
+    canvas.height = 64
+    const context = canvas.getContext("2d")!
+    context.fillStyle = "rgba(30, 41, 59, 0.85)"
+    context.beginPath()
+    context.arc(32, 32, 30, 0, Math.PI * 2)
+    context.fill()
+    context.fillStyle = "#ffffff"
+    context.font = "bold 36px sans-serif"
+    context.textAlign = "center"
+    context.textBaseline = "middle"
+    context.fillText(badge, 32, 34)
+
+    const material = new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), depthTest: false })
+    this.badgeMaterials.set(badge, material)
+    return material
+  }
+
+  // 播放时隐藏事件图标
+  private setBadgesVisible(visible: boolean): void {
+    this.tileChunks?.setOverlaysVisible(visible)
+  }
+
+  // 执行一个关卡修改命令，用于砖块以外的修改（设置、事件等）
+  public executeEdit(command: EditCommand): void {
+    this.history.execute(command)
+  }
+
+  public undo(): void {
+    this.history.undo()
+  }
+
+  public redo(): void {
+    this.history.redo()
+  }
+
+  public canUndo(): boolean {
+    return this.history.canUndo()
+  }
+
+  public canRedo(): boolean {
+    return this.history.canRedo()
+  }
+
+  private insertTilesAt(index: number, tiles: Tile[]): void {
+    const count = tiles.length
+    insertTiles(this.adofaiFile, index, tiles)
+    this.applyTileEdit(
+      (old) => (old >= index ? old + count : old),
+      [index - 1, index + count, index + count + 1].concat(Array.from({ length: count }, (_, i) => index + i)),
+    )
+  }
+
+  private removeTilesAt(index: number, count: number): Tile[] {
+    const removed = removeTiles(this.adofaiFile, index, count)
+    const startTile = this.startTileIndex
+    this.applyTileEdit(
+      (old) => (old < index ? old : old < index + count ? null : old - count),
+      [index - 1, index, index + 1, index + 2],
+    )
+    // 起点被删除时移到删除位置
+    if (startTile >= index && startTile < index + count) {
+      this.setStartTile(index)
+    }
+    return removed
+  }
+
+  /**
+   * 关卡修改后更新渲染：dirty 中最靠前的砖块之后的位置与索引都可能改变，
+   * 这些砖块所在的分块重新生成；mapIndex 把旧索引映射到新索引，被删除的返回 null
+   */
+  private applyTileEdit(mapIndex: (index: number) => number | null, dirty: number[]): void {
+    if (!this.scene) return
+
+    const selection: number[] = []
+    this.selectedTiles.forEach((index) => {
+      const next = mapIndex(index)
+      if (next !== null) selection.push(next)
+    })
+    this.selectedTiles = new Set(selection)
+
+    const startTile = mapIndex(this.startTileIndex)
+    if (startTile !== null && startTile !== this.startTileIndex) {
+      this.setStartTile(startTile)
+    }
+
+    this.refreshTimeline()
+    this.tileChunks?.rebuildIndex()
+    this.tileChunks?.invalidate(dirty.length > 0 ? Math.min(...dirty) : 0)
+    this.updateVisibleTiles()
+    this.updateStartMarker()
+    this.rebuildDecorations()
+  }
+
+  /**
+   * 按第 tileIndex 块的星球数量把星球排成正多边形
+   * 中心星球位于 position，领先的星球位于 angle 方向，其余星球按编号顺序排在之后，每命中一块下一颗星球成为中心
+   * 自由移动段中每走一步（step）下一颗星球成为中心
+   */
+  private layoutPlanets(tileIndex: number, angle: number, position: [number, number], step = 0): void {
+    const timing = this.timeline[tileIndex]
+    const count = Math.min(timing?.planetCount ?? 2, this.planets.length)
+    const pivot = ((timing?.pivot ?? 0) + step) % count
+    const isClockwise = timing?.isClockwise ?? true
+    const [pivotX, pivotY] = position
+
+    // 多边形的外接圆圆心位于中心星球内角的角平分线上
+    const interior = (getPlanetInteriorAngle(count) * Math.PI) / 180
+    const radius = PLANET_ORBIT_RADIUS / (2 * Math.sin(Math.PI / count))
+    const bisector = angle + (isClockwise ? interior / 2 : -interior / 2)
+    const centerX = pivotX + radius * Math.cos(bisector)
+    const centerY = pivotY + radius * Math.sin(bisector)
+    const vertices = this.calculatePolygonVertices(centerX, centerY, radius, count, bisector + Math.PI, !isClockwise)
+
+    this.planets.forEach((planet, index) => {
+      planet.tileIndex = tileIndex
+      planet.isCenter = index === pivot
+      planet.mesh.visible = index < count
+      if (index >= count) return
+
+      // 第 k 个顶点是中心星球之后的第 k 颗星球
+      const vertex = vertices[(index - pivot + count) % count]
+      planet.angle = planet.isCenter ? 0 : Math.atan2(vertex.y - pivotY, vertex.x - pivotX)
+      planet.mesh.position.set(planet.isCenter ? pivotX : vertex.x, planet.isCenter ? pivotY : vertex.y, 5)
     })
+  }
 
-    document.body.appendChild(this.pauseButton)
+  // 中心星球的位置：长按砖块上沿长条滑过 holdProgress 的比例
+  private getPivotPosition(tileIndex: number, holdProgress: number): [number, number] {
+    const [x, y] = getTilePosition(this.adofaiFile, tileIndex)
+    const distance = (this.timeline[tileIndex]?.holdLength ?? 0) * holdProgress
+    const exit = ((this.adofaiFile?.tiles?.[tileIndex]?.direction ?? 0) * Math.PI) / 180
+    return [x + distance * Math.cos(exit), y + distance * Math.sin(exit)]
   }
 
-  private removePauseButton(): void {
-    if (this.pauseButton) {
-      document.body.removeChild(this.pauseButton)
-      this.pauseButton = null
+  private updatePlanets(): void {
+    if (this.playbackState !== PlaybackState.PLAYING || this.planets.length === 0) return
+
+    // 到达循环终点时回到循环起点
+    if (this.loopRegion) {
+      const loopEnd = this.timeline[this.loopRegion.end]
+      if (loopEnd && this.getPlaybackTime() >= loopEnd.time) {
+        this.seek(this.timeline[this.loopRegion.start]?.time ?? 0)
+      }
+    }
+
+    const state = getOrbitState(this.timeline, this.getPlaybackTime())
+    if (!state) return
+
+    if (state.tileIndex !== this.currentTileIndex) {
+      this.currentTileIndex = state.tileIndex
+      this.currentBpm = this.timeline[state.tileIndex].bpm
     }
+
+    const freeRoam = this.freeRoams.get(state.tileIndex)
+    if (freeRoam) {
+      const timing = this.timeline[state.tileIndex]
+      const exit = ((this.adofaiFile.tiles[state.tileIndex]?.direction ?? 0) * Math.PI) / 180
+      const roam = getFreeRoamState(freeRoam, timing, exit, this.getPlaybackTime())
+      this.layoutPlanets(state.tileIndex, roam.angle, roam.pivot, roam.step)
+    } else {
+      this.layoutPlanets(state.tileIndex, state.angle, this.getPivotPosition(state.tileIndex, state.holdProgress))
+    }
+
+    this.hitsoundScheduler.update()
+    this.judgementTracker?.update(this.getPlaybackTime()).forEach((result) => this.showJudgement(result))
+    this.updateTrackColors()
+    this.eventTweens.update(this.getPlaybackTime())
+    this.updateTrackTransforms(this.getPlaybackTime())
+    this.updateParticleTrails()
+    this.updateCamera()
   }
 
   public setPlaybackState(state: PlaybackState): void {
@@ -497,12 +1332,22 @@ class Previewer {
     this.playbackState = state
 
     if (state === PlaybackState.PLAYING) {
-      this.gameStartTime = performance.now()
+      this.refreshTimeline()
+      this.currentTileIndex = this.startTileIndex
+      this.currentBpm = this.timeline[this.startTileIndex]?.bpm ?? this.currentBpm
+      this.judgementTracker = this.inputMode ? new JudgementTracker(this.timeline, this.startTileIndex) : null
+      this.setBadgesVisible(false)
+      this.startSong()
+      this.trackColors?.seek(this.getPlaybackTime())
+      this.recolorTiles()
+      this.scheduleEventTweens()
+      this.eventTweens.seek(this.getPlaybackTime())
+      this.updateTrackTransforms(this.getPlaybackTime())
       // 先移除所有星球
       this.clearPlanets()
       // 重新添加星球，确保每次播放都是全新状态
       this.createPlanets()
-      this.createPauseButton()
+      this.updateStartMarker()
       this.renderer?.setSize(window.innerWidth, window.innerHeight)
       this.updateCamera()
     } else {
@@ -517,9 +1362,18 @@ class Previewer {
           this.scene.remove(testSphere)
         }
       }
+      this.hitsoundScheduler.stop()
+      this.songPlayer.stop()
       this.clearPlanets()
-      this.removePauseButton()
       this.clearParticles()
+      this.clearJudgementPopups()
+      this.setBadgesVisible(true)
+      // 编辑视图不显示 RecolorTrack 的效果与颜色动画
+      this.trackColors?.seek(-Infinity)
+      this.recolorTiles()
+      this.eventTweens.seek(-Infinity)
+      this.updateTrackTransforms(null)
+      this.updateStartMarker()
       const containerSize = this.getContainerSize()
       this.renderer?.setSize(containerSize.width, containerSize.height)
       this.updateCamera()
@@ -551,15 +1405,42 @@ class Previewer {
   }
 
   private onKeyDown(event: KeyboardEvent): void {
-    if (event.code === "Space") {
+    if (event.code === "Escape") {
+      event.preventDefault()
+      if (this.playbackState === PlaybackState.PLAYING) {
+        this.setPlaybackState(PlaybackState.HOLDING)
+      }
+    } else if (this.playbackState === PlaybackState.PLAYING && this.judgementTracker) {
+      // 练习模式：除修饰键外的任意键（包括空格）都算一次按键
+      if (event.repeat || MODIFIER_KEYS.has(event.key)) return
+      event.preventDefault()
+      this.handleHitInput()
+    } else if (event.code === "Space" && !isEditableTarget(event.target)) {
       event.preventDefault()
       if (this.playbackState === PlaybackState.HOLDING) {
         this.setPlaybackState(PlaybackState.PLAYING)
       }
-    } else if (event.code === "Escape") {
+    } else if ((event.ctrlKey || event.metaKey) && !isEditableTarget(event.target)) {
+      if (this.playbackState !== PlaybackState.HOLDING) return
+      const key = event.key.toLowerCase()
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault()
+        this.undo()
+      } else if (key === "y" || (key === "z" && event.shiftKey)) {
+        event.preventDefault()
+        this.redo()
+      }
+    } else if (
+      this.playbackState === PlaybackState.HOLDING &&
+      !event.altKey &&
+      !isEditableTarget(event.target) &&
+      this.handleAngleInput(event)
+    ) {
       event.preventDefault()
-      if (this.playbackState === PlaybackState.PLAYING) {
-        this.setPlaybackState(PlaybackState.HOLDING)
+    } else if ((event.key === "Delete" || event.key === "Backspace") && !isEditableTarget(event.target)) {
+      if (this.playbackState === PlaybackState.HOLDING && this.selectedTiles.size > 0) {
+        event.preventDefault()
+        this.removeSelectedTiles()
       }
     }
   }
@@ -589,7 +1470,11 @@ class Previewer {
     }
 
     this.clearPlanets()
-    this.removePauseButton()
+    this.clearJudgementPopups()
+    this.removeSelectionBox()
+    this.layoutBadge?.remove()
+    this.hitsoundScheduler.stop()
+    this.songPlayer.dispose()
 
     this.removeEventListeners()
 
@@ -618,30 +1503,24 @@ class Previewer {
   }
 
   private cleanupThreeJS(): void {
-    // 清理所有tile meshes
-    this.tiles.forEach((mesh) => {
-      if (mesh.geometry) mesh.geometry.dispose()
-      if (mesh.material) {
-        if (Array.isArray(mesh.material)) {
-          mesh.material.forEach((mat: any) => mat.dispose())
-        } else {
-          mesh.material.dispose()
-        }
-      }
-      if (this.scene) {
-        this.scene.remove(mesh)
-      }
-    })
-    this.tiles.clear()
-    this.visibleTiles.clear()
+    // 清理轨道分块
+    this.tileChunks?.dispose()
+    this.tileChunks = null
+    this.decorations?.dispose()
+    this.decorations = null
+    this.background?.dispose()
+    this.background = null
+    this.freeRoamLayer?.dispose()
+    this.freeRoamLayer = null
+    this.effects?.dispose()
+    this.effects = null
 
     // 清理材质
-    if (this.tileMaterials) {
-      this.tileMaterials.forEach((material: any) => {
-        if (material.dispose) material.dispose()
-      })
-      this.tileMaterials = null
-    }
+    this.badgeMaterials.forEach((material) => {
+      material.map?.dispose()
+      material.dispose()
+    })
+    this.badgeMaterials.clear()
 
     // 清理几何体
     if (this.tileGeometry) {
@@ -698,7 +1577,6 @@ class Previewer {
 
     // 创建场景
     this.scene = new THREE.Scene()
-    this.scene.background = new THREE.Color(0xf0f0f0) // 改为浅灰色背景
 
     // 创建摄像机 - 调整近远平面
     const aspect = containerSize.width / containerSize.height
@@ -709,7 +1587,7 @@ class Previewer {
       frustumSize / 2,
       frustumSize / -2,
       0.1, // 近平面
-      100, // 远平面
+      1000, // 远平面，砖块按索引向下排列深度，需要容纳大型关卡
     )
     this.camera.position.z = 10
 
@@ -732,36 +1610,29 @@ class Previewer {
 
     // 创建砖块几何体和材质
     this.tileGeometry = new THREE.BoxGeometry(1, 0.65, 0.2)
-    this.tileMaterials = this.createTileMaterials()
-
-    this.updateVisibleTiles()
-  }
-
-  private createTileMaterials(): THREE.MeshBasicMaterial[] {
-    const materials: THREE.MeshBasicMaterial[] = []
-    const colors = [
-      0xdebb7b,
-      0xffd700, // 金色
-      0xff69b4, // 热粉色
-      0x90ee90, // 浅绿色
-      0x87ceeb, // 天蓝色
-      0xffa500, // 橙色
-      0xda70d6, // 紫罗兰色
-      0xffffff,
-      0xff00ff,
-    ]
-
-    colors.forEach((color) => {
-      const m = new THREE.MeshBasicMaterial({
-        vertexColors: true,
-        side: THREE.DoubleSide,
-      })
-      m.color = new THREE.Color(color)
-      m.opacity = 0.5
-      materials.push(m)
+    this.tileChunks = new TileChunkRenderer(this.scene, {
+      getTileCount: () => this.adofaiFile?.tiles?.length || 0,
+      getTilePosition: (index) => getTilePosition(this.adofaiFile, index),
+      getTileMeshInput: (index) => this.getTileMeshInput(index),
+      buildChunkGeometry: (tiles) => getWorkerPool().buildChunkGeometry(tiles),
+      getTileColor: (index) => this.getTileColor(index),
+      getTileTransform: (index) => this.trackTransforms?.getTransform(index) ?? IDENTITY_TRANSFORM,
+      createTileOverlays: (index, x, y, z) => {
+        const badges = this.createTileBadges(index, x, y, z)
+        badges.forEach((badge) => (badge.visible = this.playbackState === PlaybackState.HOLDING))
+        return badges
+      },
     })
-
-    return materials
+    this.decorations = new DecorationLayer(this.scene)
+    this.background = new BackgroundLayer(this.scene)
+    this.freeRoamLayer = new FreeRoamLayer(this.scene)
+    this.effects = new EffectPipeline(this.renderer, this.scene, this.camera)
+    this.effects.setEnabled(this.effectsEnabled)
+    this.refreshTimeline()
+    this.updateStartMarker()
+    this.rebuildDecorations()
+    this.background.build(this.adofaiFile)
+    this.updateCamera()
   }
 
   private createTransparentTileWithMergedGeometry(meshData: any, opacity: number, color?: number): THREE.Mesh {
@@ -816,11 +1687,19 @@ class Previewer {
       x: event.clientX,
       y: event.clientY,
     }
+    this.mouseDownPosition = { ...this.previousMousePosition }
+    // 选择工具下左键拖拽为框选，其余情况平移视图
+    this.isBoxSelecting = this.tool === "select" && event.button === 0
   }
 
   private onMouseMove(event: MouseEvent): void {
     if (this.isDisposed || !this.isDragging || this.playbackState === PlaybackState.PLAYING) return
 
+    if (this.isBoxSelecting) {
+      this.updateSelectionBox(event.clientX, event.clientY)
+      return
+    }
+
     const deltaX = event.clientX - this.previousMousePosition.x
     const deltaY = event.clientY - this.previousMousePosition.y
 
@@ -837,13 +1716,46 @@ class Previewer {
     this.updateCamera()
   }
 
-  private onMouseUp(): void {
+  private onMouseUp(event: MouseEvent): void {
     if (this.isDisposed) return
+    const wasDragging = this.isDragging
+    const wasBoxSelecting = this.isBoxSelecting
     this.isDragging = false
-  }
-
-  private onWheel(event: WheelEvent): void {
-    if (this.isDisposed || this.playbackState === PlaybackState.PLAYING) return
+    this.isBoxSelecting = false
+    this.removeSelectionBox()
+    if (!wasDragging || this.playbackState !== PlaybackState.HOLDING) return
+
+    const moved = Math.hypot(event.clientX - this.mouseDownPosition.x, event.clientY - this.mouseDownPosition.y)
+    if (moved >= 4) {
+      if (wasBoxSelecting) {
+        const boxed = this.getTilesInRect(
+          this.mouseDownPosition.x,
+          this.mouseDownPosition.y,
+          event.clientX,
+          event.clientY,
+        )
+        this.setSelection(event.shiftKey ? [...this.selectedTiles, ...boxed] : boxed)
+      }
+      return
+    }
+
+    // 没有拖动视为点击：选择工具下选中砖块（Shift 切换选中），点中的砖块作为播放起点
+    if (event.button !== 0) return
+    const tileIndex = this.pickTile(event.clientX, event.clientY)
+    if (this.tool === "select") {
+      if (event.shiftKey) {
+        if (tileIndex !== null) this.toggleSelection(tileIndex)
+        return
+      }
+      this.setSelection(tileIndex !== null ? [tileIndex] : [])
+    }
+    if (tileIndex !== null) {
+      this.setStartTile(tileIndex)
+    }
+  }
+
+  private onWheel(event: WheelEvent): void {
+    if (this.isDisposed || this.playbackState === PlaybackState.PLAYING) return
     event.preventDefault()
 
     const zoomSpeed = 0.1
@@ -906,113 +1818,75 @@ class Previewer {
     return Math.sqrt(dx * dx + dy * dy)
   }
 
+  // 编辑时使用拖动与缩放的视角，播放时由摄像机轨迹决定
   private updateCamera(): void {
     if (this.isDisposed || !this.camera) return
-    this.camera.position.x = this.cameraPosition.x
-    this.camera.position.y = this.cameraPosition.y
+
+    if (this.playbackState === PlaybackState.PLAYING && this.cameraTimeline) {
+      const state = this.cameraTimeline.getState(this.getPlaybackTime())
+      this.setCameraView(state.x, state.y, (PLAYBACK_VIEW_HEIGHT * state.zoom) / 100, state.rotation)
+    } else {
+      this.setCameraView(this.cameraPosition.x, this.cameraPosition.y, EDITOR_VIEW_HEIGHT / this.zoom, 0)
+    }
+    this.updateVisibleTiles()
+  }
+
+  // 设置摄像机的位置、可视高度（格）与旋转（度）
+  private setCameraView(x: number, y: number, frustumSize: number, rotation: number): void {
+    if (!this.camera) return
+    this.camera.position.x = x
+    this.camera.position.y = y
+    this.camera.rotation.z = (rotation * Math.PI) / 180
+    this.decorations?.setCamera(x, y)
 
     // 更新正交摄像机的视锥体 - 使用容器尺寸
     const containerSize = this.getContainerSize()
     const aspect = containerSize.width / containerSize.height
-    const frustumSize = 20 / this.zoom
+    this.background?.setView(x, y, frustumSize * aspect, frustumSize, rotation)
 
     this.camera.left = (frustumSize * aspect) / -2
     this.camera.right = (frustumSize * aspect) / 2
     this.camera.top = frustumSize / 2
     this.camera.bottom = frustumSize / -2
     this.camera.updateProjectionMatrix()
-
-    if (this.playbackState === PlaybackState.HOLDING) {
-      this.updateVisibleTiles()
-    }
   }
 
   private updateVisibleTiles(): void {
-    if (this.isDisposed || !this.scene || this.playbackState === PlaybackState.PLAYING) return
-    // 计算摄像机能看到的范围 - 使用容器尺寸
-    const containerSize = this.getContainerSize()
-    const aspect = containerSize.width / containerSize.height
-    const frustumSize = 20 / this.zoom
-
-    const left = this.cameraPosition.x - (frustumSize * aspect) / 2
-    const right = this.cameraPosition.x + (frustumSize * aspect) / 2
-    const bottom = this.cameraPosition.y - frustumSize / 2
-    const top = this.cameraPosition.y + frustumSize / 2
-
-    // 清除当前可见的砖块
-    this.visibleTiles.forEach((tileId) => {
-      if (this.tiles.has(tileId)) {
-        this.scene!.remove(this.tiles.get(tileId)!)
-      }
-    })
-    this.visibleTiles.clear()
-
-    // 找到在视野范围内的砖块
-    let visibleTileIds: string[] = []
-    visibleTileIds = Object.keys(this.adofaiFile.tiles).filter((id) => {
-      const tile = this.adofaiFile.tiles[id]
-      const [x, y] = tile.position
-      return x >= left - 1 && x <= right + 1 && y >= bottom - 1 && y <= top + 1
-    })
-
-    // 应用limit限制
-    let tilesToRender = visibleTileIds
-    if (this.tileLimit > 0 && visibleTileIds.length > this.tileLimit) {
-      // 按距离摄像机的距离排序，优先渲染近的
-      tilesToRender = visibleTileIds
-        .map((id) => {
-          const tile = this.adofaiFile.tiles[Number.parseInt(id) - 1]
-          const [x, y] = tile?.position || [0, 0]
-          const distance = Math.sqrt(Math.pow(x - this.cameraPosition.x, 2) + Math.pow(y - this.cameraPosition.y, 2))
-          return { id, distance }
-        })
-        .sort((a, b) => a.distance - b.distance)
-        .slice(0, this.tileLimit)
-        .map((item) => item.id)
-    }
-
-    // 创建或重用砖块mesh
-    tilesToRender.forEach((id, index) => {
-      const tile = this.adofaiFile.tiles[Number.parseInt(id) - 1]
-      const [x, y] = tile?.position || [0, 0]
-
-      let tileMesh
-      if (this.tiles.has(id)) {
-        tileMesh = this.tiles.get(id)!
-      } else {
-        // 计算层级（第一个砖块层级12，后续递减）
-        const zLevel = 12 - Number.parseInt(id)
-        const materialIndex = Number.parseInt(id) % this.tileMaterials!.length
-
-        let pred = (this.adofaiFile.tiles[Number.parseInt(id) - 1]?.direction || 0) - 180
-        if (this.adofaiFile.tiles[Number.parseInt(id) - 1]?.direction == 999) {
-          pred = this.adofaiFile.tiles[Number.parseInt(id) - 2]?.direction || 0
-          //pred -= 180;
-        }
-        const pred2 = this.adofaiFile.tiles[Number.parseInt(id)]?.direction || 0
-
-        const meshdata = createTrackMesh(pred, pred2, this.adofaiFile.tiles[Number.parseInt(id)]?.direction == 999);
-        if (!meshdata || !meshdata.faces) {
-          console.error("Meshdata or meshdata.faces is undefined for tile id:", id, meshdata);
-          return;
-        }
-        const mesh = new THREE.BufferGeometry();
-        mesh.setIndex(meshdata.faces);
-        mesh.setAttribute("position", new THREE.Float32BufferAttribute(meshdata.vertices, 3));
-        mesh.setAttribute("color", new THREE.Float32BufferAttribute(meshdata.colors, 3));
-        mesh.computeVertexNormals();
-
-        tileMesh = new THREE.Mesh(mesh, this.tileMaterials![materialIndex])
-        tileMesh.position.set(x, y, zLevel * 0.01) // 微小的z差异来实现层级
-        tileMesh.castShadow = true
-        tileMesh.receiveShadow = true
-
-        this.tiles.set(id, tileMesh)
-      }
+    if (this.isDisposed || !this.scene || !this.tileChunks || !this.camera) return
+    // 摄像机能看到的范围，旋转时取外接矩形，四周多留一格避免边缘的砖块闪烁
+    const halfWidth = (this.camera.right - this.camera.left) / 2
+    const halfHeight = (this.camera.top - this.camera.bottom) / 2
+    const cos = Math.abs(Math.cos(this.camera.rotation.z))
+    const sin = Math.abs(Math.sin(this.camera.rotation.z))
+    const extentX = halfWidth * cos + halfHeight * sin + 1
+    const extentY = halfWidth * sin + halfHeight * cos + 1
+    const { x, y } = this.camera.position
+
+    this.tileChunks.update(
+      {
+        minX: x - extentX,
+        maxX: x + extentX,
+        minY: y - extentY,
+        maxY: y + extentY,
+      },
+      this.tileLimit,
+    )
+  }
 
-      this.scene!.add(tileMesh)
-      this.visibleTiles.add(id)
-    })
+  // 第 index 块的网格参数：从上一块的方向转到本块的方向，中旋砖块单独处理，长按砖块带有长条
+  private getTileMeshInput(index: number): Omit<TileMeshInput, "x" | "y" | "z"> {
+    const tiles = this.adofaiFile.tiles
+    let pred = (tiles[index - 1]?.direction || 0) - 180
+    if (tiles[index - 1]?.direction == 999) {
+      pred = tiles[index - 2]?.direction || 0
+    }
+    return {
+      startAngle: pred,
+      endAngle: tiles[index]?.direction || 0,
+      isMidspin: tiles[index]?.direction == 999,
+      style: this.tileStyles[index],
+      holdLength: getHold(tiles[index])?.length ?? 0,
+    }
   }
 
   private updateFPS(): void {
@@ -1032,7 +1906,7 @@ class Previewer {
         this.info.innerHTML = `
                     <div>${this.t("editor.info.cameraPosition")} (${this.cameraPosition.x.toFixed(2)}, ${this.cameraPosition.y.toFixed(2)})</div>
                     <div>${this.t("editor.info.zoom")} ${this.zoom.toFixed(2)}</div>
-                    <div>${this.t("editor.info.horizon")} ${this.visibleTiles.size}</div>
+                    <div>${this.t("editor.info.horizon")} ${this.tileChunks?.getRenderedTileCount() ?? 0}</div>
                     <div>${this.t("editor.info.total")} ${Object.keys(this.adofaiFile.tiles).length}</div>
                 `
       }
@@ -1046,20 +1920,8 @@ class Previewer {
     if (this.isDisposed || !this.camera || !this.renderer) return
     // 使用容器尺寸而不是窗口尺寸
     const containerSize = this.getContainerSize()
-    const aspect = containerSize.width / containerSize.height
-    const frustumSize = 20 / this.zoom
-
-    this.camera.left = (frustumSize * aspect) / -2
-    this.camera.right = (frustumSize * aspect) / 2
-    this.camera.top = frustumSize / 2
-    this.camera.bottom = frustumSize / -2
-    this.camera.updateProjectionMatrix()
-
     this.renderer.setSize(containerSize.width, containerSize.height)
-
-    if (this.playbackState === PlaybackState.HOLDING) {
-      this.updateVisibleTiles()
-    }
+    this.updateCamera()
   }
 
   // 替换 animate 方法：
@@ -1069,16 +1931,17 @@ class Previewer {
     this.animationId = requestAnimationFrame(this.animate.bind(this))
 
     const currentTime = performance.now()
-    const deltaTime = currentTime - this.lastTime
 
     // 更新星球位置
     if (this.playbackState === PlaybackState.PLAYING) {
-      this.updatePlanets(deltaTime)
+      this.updatePlanets()
     }
 
     this.updateFPS()
 
-    if (this.renderer && this.scene && this.camera) {
+    if (this.effects) {
+      this.effects.render(this.getPlaybackTime())
+    } else if (this.renderer && this.scene && this.camera) {
       this.renderer.render(this.scene, this.camera)
     }
 
@@ -1102,6 +1965,576 @@ class Previewer {
   }
 }
 
+// 屏幕特效开关在 localStorage 中的键
+const EFFECTS_STORAGE_KEY = "screenEffects"
+
+// 读取保存的屏幕特效开关，默认开启
+function readEffectsEnabled(): boolean {
+  try {
+    return localStorage.getItem(EFFECTS_STORAGE_KEY) !== "false"
+  } catch {
+    return true
+  }
+}
+
+// 播放速度选项
+const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2]
+
+// 时间格式化为 m:ss.s
+function formatTime(ms: number): string {
+  const totalSeconds = Math.max(ms, 0) / 1000
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds - minutes * 60
+  return `${minutes}:${seconds < 10 ? "0" : ""}${seconds.toFixed(1)}`
+}
+
+interface TransportBarProps {
+  previewerRef: React.MutableRefObject<Previewer | null>
+  level: any
+  playbackState: PlaybackState
+  isDark: boolean
+  t: (key: string) => string
+  onTogglePlayback: () => void
+}
+
+// 播放控制栏：进度拖动、播放速度与 A/B 循环
+function TransportBar({ previewerRef, level, playbackState, isDark, t, onTogglePlayback }: TransportBarProps): JSX.Element {
+  const [info, setInfo] = useState<PlaybackInfo>({ time: 0, duration: 0, tileIndex: 0, tileCount: 0 })
+  const [rate, setRate] = useState<number>(1)
+  const [preservePitch, setPreservePitch] = useState<boolean>(true)
+  const [loopStart, setLoopStart] = useState<number | null>(null)
+  const [loopEnd, setLoopEnd] = useState<number | null>(null)
+  const [accuracy, setAccuracy] = useState<number | null>(null)
+
+  // 定时读取播放进度
+  useEffect(() => {
+    const update = (): void => {
+      const next = previewerRef.current?.getPlaybackInfo()
+      if (!next) return
+      const summary = previewerRef.current?.getJudgementSummary()
+      setAccuracy(summary && summary.total > 0 ? summary.accuracy : null)
+      setInfo((prev) =>
+        prev.time === next.time &&
+        prev.duration === next.duration &&
+        prev.tileIndex === next.tileIndex &&
+        prev.tileCount === next.tileCount
+          ? prev
+          : next,
+      )
+    }
+    update()
+    const timer = setInterval(update, 100)
+    return () => clearInterval(timer)
+  }, [previewerRef, level])
+
+  // 载入新关卡时清除循环区间
+  useEffect(() => {
+    setLoopStart(null)
+    setLoopEnd(null)
+  }, [level])
+
+  useEffect(() => {
+    previewerRef.current?.setPlaybackRate(rate, preservePitch)
+  }, [previewerRef, level, rate, preservePitch])
+
+  useEffect(() => {
+    previewerRef.current?.setLoopRegion(loopStart, loopEnd)
+  }, [previewerRef, level, loopStart, loopEnd])
+
+  const isPlaying = playbackState === PlaybackState.PLAYING
+  const buttonClass = "text-white hover:bg-white/20 hover:text-white px-2"
+
+  return (
+    <div
+      className={`absolute bottom-4 left-4 right-4 z-10 rounded-lg px-3 py-2 text-sm text-white shadow-lg ${
+        isDark ? "bg-slate-800/90" : "bg-black/60"
+      }`}
+      onKeyDown={(e) => {
+        // 空格交给播放器处理，避免重复触发按钮
+        if (e.code === "Space") e.preventDefault()
+      }}
+    >
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="sm" className={buttonClass} onClick={onTogglePlayback} disabled={!level}>
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <input
+          type="range"
+          className="flex-1 accent-purple-500"
+          min={0}
+          max={Math.max(info.duration, 1)}
+          step={1}
+          value={Math.min(Math.max(info.time, 0), info.duration)}
+          onChange={(e) => previewerRef.current?.seek(Number(e.target.value))}
+          disabled={!level}
+        />
+        <span className="font-mono whitespace-nowrap">
+          {formatTime(info.time)} / {formatTime(info.duration)}
+        </span>
+        <span className="whitespace-nowrap">
+          {t("editor.transport.tile")} {info.tileIndex} / {Math.max(info.tileCount - 1, 0)}
+        </span>
+        {isPlaying && accuracy !== null && (
+          <span className="font-mono whitespace-nowrap">
+            {t("editor.judgement.accuracy")} {accuracy.toFixed(2)}%
+          </span>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mt-2">
+        <div className="flex items-center gap-2">
+          <span>{t("editor.transport.rate")}</span>
+          <Select value={String(rate)} onValueChange={(value) => setRate(Number(value))}>
+            <SelectTrigger className="h-8 w-20 bg-transparent border-white/30 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_RATES.map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  {value}x
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            className="accent-purple-500"
+            checked={preservePitch}
+            onChange={(e) => setPreservePitch(e.target.checked)}
+          />
+          {t("editor.transport.preservePitch")}
+        </label>
+        <div className="flex items-center gap-1 ml-auto">
+          <Repeat className={`w-4 h-4 ${loopStart !== null && loopEnd !== null ? "text-purple-400" : ""}`} />
+          <Button variant="ghost" size="sm" className={buttonClass} onClick={() => setLoopStart(info.tileIndex)}>
+            A{loopStart !== null ? `: ${loopStart}` : ""}
+          </Button>
+          <Button variant="ghost" size="sm" className={buttonClass} onClick={() => setLoopEnd(info.tileIndex)}>
+            B{loopEnd !== null ? `: ${loopEnd}` : ""}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={buttonClass}
+            onClick={() => {
+              setLoopStart(null)
+              setLoopEnd(null)
+            }}
+            disabled={loopStart === null && loopEnd === null}
+          >
+            {t("editor.transport.clearLoop")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface FieldInputProps {
+  field: FieldSpec
+  value: unknown
+  isDark: boolean
+  onChange: (value: unknown) => void
+}
+
+// 字段输入控件，文本与数值在失去焦点或回车时提交，每次提交是一个撤销步骤
+function FieldInput({ field, value, isDark, onChange }: FieldInputProps): JSX.Element {
+  const inputClass = `h-8 text-sm ${isDark ? "bg-slate-700 border-slate-600 text-white" : ""}`
+  // 外部修改（撤销等）后重新挂载输入框以显示新值
+  const inputKey = JSON.stringify(value ?? null)
+  const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === "Enter") e.currentTarget.blur()
+  }
+  const parseNumber = (raw: string): number | null => {
+    if (raw.trim() === "") return null
+    const parsed = Number(raw)
+    if (Number.isNaN(parsed)) return null
+    const min = field.min ?? -Infinity
+    const max = field.max ?? Infinity
+    // 步长为整数的字段只接受整数
+    const stepped = field.step !== undefined && Number.isInteger(field.step) ? Math.round(parsed) : parsed
+    return Math.min(Math.max(stepped, min), max)
+  }
+
+  switch (field.type) {
+    case "number":
+      return (
+        <Input
+          key={inputKey}
+          type="number"
+          className={inputClass}
+          defaultValue={typeof value === "number" ? value : ""}
+          min={field.min}
+          max={field.max}
+          step={field.step ?? "any"}
+          onKeyDown={commitOnEnter}
+          onBlur={(e) => {
+            const next = parseNumber(e.target.value)
+            if (next !== null && next !== value) {
+              onChange(next)
+            } else {
+              // 无效或超出范围后未变化的输入恢复为当前值
+              e.target.value = typeof value === "number" ? String(value) : ""
+            }
+          }}
+        />
+      )
+    case "toggle":
+      return (
+        <input
+          type="checkbox"
+          className="accent-purple-500"
+          checked={isToggleOn(value)}
+          onChange={(e) => onChange(toToggleValue(value ?? field.default, e.target.checked))}
+        />
+      )
+    case "enum": {
+      const current = typeof value === "string" ? value : String(field.default)
+      const options = field.options?.includes(current) ? field.options : [current, ...(field.options || [])]
+      return (
+        <Select value={current} onValueChange={(next) => next !== value && onChange(next)}>
+          <SelectTrigger className={inputClass}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+    }
+    case "color": {
+      const hex = typeof value === "string" && HEX_COLOR_PATTERN.test(value) ? value : String(field.default)
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            type="color"
+            className="h-8 w-8 rounded border-0 bg-transparent p-0"
+            value={`#${hex.slice(0, 6)}`}
+            onChange={(e) => onChange(e.target.value.slice(1) + hex.slice(6))}
+          />
+          <Input
+            key={inputKey}
+            className={inputClass}
+            defaultValue={hex}
+            onKeyDown={commitOnEnter}
+            onBlur={(e) => {
+              const next = e.target.value.replace(/^#/, "")
+              if (HEX_COLOR_PATTERN.test(next) && next !== value) onChange(next)
+              else e.target.value = hex
+            }}
+          />
+        </div>
+      )
+    }
+    case "vector2": {
+      const vector = Array.isArray(value) ? value : [null, null]
+      return (
+        <div key={inputKey} className="grid grid-cols-2 gap-2">
+          {[0, 1].map((axis) => (
+            <Input
+              key={axis}
+              type="number"
+              step="any"
+              className={inputClass}
+              placeholder={axis === 0 ? "x" : "y"}
+              defaultValue={typeof vector[axis] === "number" ? vector[axis] : ""}
+              onKeyDown={commitOnEnter}
+              onBlur={(e) => {
+                // 留空表示不修改该分量（null）
+                const next = [...vector]
+                next[axis] = parseNumber(e.target.value)
+                if (next[axis] !== vector[axis]) onChange(next)
+              }}
+            />
+          ))}
+        </div>
+      )
+    }
+    case "tile": {
+      const reference = Array.isArray(value) ? value : [0, "ThisTile"]
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            key={inputKey}
+            type="number"
+            step={1}
+            className={inputClass}
+            defaultValue={Number(reference[0]) || 0}
+            onKeyDown={commitOnEnter}
+            onBlur={(e) => {
+              const offset = Math.round(Number(e.target.value) || 0)
+              if (offset !== reference[0]) onChange([offset, reference[1]])
+            }}
+          />
+          <Select value={String(reference[1])} onValueChange={(next) => onChange([reference[0], next])}>
+            <SelectTrigger className={inputClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {["ThisTile", "Start", "End"].map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )
+    }
+    default: {
+      // 非字符串的未知字段以 JSON 编辑
+      const isJson = value !== undefined && typeof value !== "string"
+      const display = isJson ? JSON.stringify(value) : ((value as string | undefined) ?? "")
+      return (
+        <Input
+          key={inputKey}
+          className={inputClass}
+          defaultValue={display}
+          onKeyDown={commitOnEnter}
+          onBlur={(e) => {
+            if (e.target.value === display) return
+            if (!isJson) {
+              onChange(e.target.value)
+              return
+            }
+            try {
+              onChange(JSON.parse(e.target.value))
+            } catch {
+              e.target.value = display
+            }
+          }}
+        />
+      )
+    }
+  }
+}
+
+interface ActionInspectorProps {
+  previewerRef: React.MutableRefObject<Previewer | null>
+  selectedTiles: number[]
+  isDark: boolean
+  t: (key: string) => string
+}
+
+// 事件检查器：列出选中砖块上的事件，可增删、排序与编辑字段
+function ActionInspector({ previewerRef, selectedTiles, isDark, t }: ActionInspectorProps): JSX.Element {
+  const [newEventType, setNewEventType] = useState<string>("SetSpeed")
+  const previewer = previewerRef.current
+  const tileIndex = selectedTiles.length === 1 ? selectedTiles[0] : null
+  const actions = previewer && tileIndex !== null ? previewer.getTileActions(tileIndex) : []
+  const iconButtonClass = `h-7 w-7 p-0 ${isDark ? "text-slate-300 hover:bg-slate-700 hover:text-white" : ""}`
+
+  return (
+    <aside
+      className={`w-72 ${
+        isDark ? "bg-slate-800 border-slate-700" : "bg-white border-slate-200"
+      } border-l p-4 flex-shrink-0 overflow-y-auto`}
+    >
+      <h3 className={`text-sm font-medium ${isDark ? "text-slate-300" : "text-slate-700"} mb-2`}>
+        {t("editor.inspector.title")}
+        {tileIndex !== null && ` · ${t("editor.transport.tile")} ${tileIndex}`}
+      </h3>
+
+      {tileIndex === null ? (
+        <p className={`text-sm ${isDark ? "text-slate-400" : "text-slate-500"}`}>
+          {selectedTiles.length > 1 ? t("editor.inspector.multipleSelection") : t("editor.inspector.noSelection")}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Select value={newEventType} onValueChange={setNewEventType}>
+              <SelectTrigger className={`h-8 text-sm ${isDark ? "bg-slate-700 border-slate-600 text-white" : ""}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.keys(ACTION_SCHEMAS).map((eventType) => (
+                  <SelectItem key={eventType} value={eventType}>
+                    {eventType}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              className={`${
+                isDark
+                  ? "border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                  : "border-slate-300 text-slate-700 hover:bg-slate-50 hover:text-slate-900"
+              } bg-transparent h-8`}
+              onClick={() => previewer?.addTileAction(tileIndex, newEventType)}
+              title={t("editor.inspector.addAction")}
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {actions.length === 0 && (
+            <p className={`text-sm ${isDark ? "text-slate-400" : "text-slate-500"}`}>{t("editor.inspector.noActions")}</p>
+          )}
+
+          {actions.map((action, actionIndex) => (
+            <div
+              key={`${actionIndex}-${action.eventType}`}
+              className={`rounded-md border p-2 ${isDark ? "border-slate-600" : "border-slate-200"}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className={`text-sm font-medium ${isDark ? "text-white" : "text-slate-900"}`}>
+                  {getActionBadge(action.eventType)} {action.eventType}
+                </span>
+                <div className="flex">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className={iconButtonClass}
+                    onClick={() => previewer?.moveTileAction(tileIndex, actionIndex, actionIndex - 1)}
+                    disabled={actionIndex === 0}
+                    title={t("editor.inspector.moveUp")}
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className={iconButtonClass}
+                    onClick={() => previewer?.moveTileAction(tileIndex, actionIndex, actionIndex + 1)}
+                    disabled={actionIndex === actions.length - 1}
+                    title={t("editor.inspector.moveDown")}
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className={iconButtonClass}
+                    onClick={() => previewer?.removeTileAction(tileIndex, actionIndex)}
+                    title={t("editor.inspector.remove")}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                {getActionFields(action).map((field) => (
+                  <div key={field.key}>
+                    <Label className={`text-xs ${isDark ? "text-slate-400" : "text-slate-500"}`}>{field.key}</Label>
+                    <div className="mt-1">
+                      <FieldInput
+                        field={field}
+                        value={action[field.key]}
+                        isDark={isDark}
+                        onChange={(value) => previewer?.setTileActionField(tileIndex, actionIndex, field.key, value)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </aside>
+  )
+}
+
+interface LevelSettingsPanelProps {
+  previewerRef: React.MutableRefObject<Previewer | null>
+  isDark: boolean
+  t: (key: string) => string
+  onClose: () => void
+}
+
+// 关卡设置编辑器：按分组列出 settings 的所有字段，可按字段名或分组名搜索
+function LevelSettingsPanel({ previewerRef, isDark, t, onClose }: LevelSettingsPanelProps): JSX.Element {
+  const [searchQuery, setSearchQuery] = useState("")
+  const previewer = previewerRef.current
+  const settings = previewer?.getLevelSettings() || {}
+  const query = searchQuery.trim().toLowerCase()
+
+  const filteredGroups = getSettingsGroups(settings)
+    .map((group) => {
+      const title = t(`editor.levelSettings.groups.${group.id}`)
+      const groupMatches = title.toLowerCase().includes(query)
+      return {
+        ...group,
+        title,
+        fields: group.fields.filter((field) => groupMatches || field.key.toLowerCase().includes(query)),
+      }
+    })
+    .filter((group) => group.fields.length > 0)
+
+  return (
+    <aside
+      className={`w-80 ${
+        isDark ? "bg-slate-800 border-slate-700" : "bg-white border-slate-200"
+      } border-l p-4 flex-shrink-0 overflow-y-auto`}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className={`text-sm font-medium ${isDark ? "text-slate-300" : "text-slate-700"}`}>
+          {t("editor.levelSettings.title")}
+        </h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-7 w-7 p-0 ${isDark ? "text-slate-300 hover:bg-slate-700 hover:text-white" : ""}`}
+          onClick={onClose}
+          title={t("editor.levelSettings.close")}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="relative mb-4">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 dark:text-slate-500 w-4 h-4" />
+        <Input
+          placeholder={t("settings.search")}
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className={`pl-10 h-8 text-sm ${isDark ? "bg-slate-700 border-slate-600 text-white" : ""}`}
+        />
+      </div>
+
+      <div className="space-y-4">
+        {filteredGroups.map((group) => (
+          <Card key={group.id} className={isDark ? "bg-slate-800 border-slate-700" : "bg-white border-slate-200"}>
+            <CardHeader className="p-3 pb-2">
+              <CardTitle className={`text-sm ${isDark ? "text-white" : "text-slate-900"}`}>{group.title}</CardTitle>
+            </CardHeader>
+            <CardContent className="p-3 pt-0 space-y-2">
+              {group.fields.map((field) => (
+                <div key={field.key}>
+                  <Label className={`text-xs ${isDark ? "text-slate-400" : "text-slate-500"}`}>{field.key}</Label>
+                  <div className="mt-1">
+                    <FieldInput
+                      field={field}
+                      value={settings[field.key]}
+                      isDark={isDark}
+                      onChange={(value) => previewer?.setLevelSetting(field.key, value)}
+                    />
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+
+        {filteredGroups.length === 0 && (
+          <div className={`text-center py-8 ${isDark ? "text-slate-400" : "text-slate-500"}`}>
+            <Search className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm font-medium">{t("settings.noResults")}</p>
+            <p className="text-xs mt-1">{t("settings.tryDifferentKeywords")}</p>
+          </div>
+        )}
+      </div>
+    </aside>
+  )
+}
+
 // 主编辑器页面
 export default function EditorPage(): JSX.Element {
   const containerRef = useRef<HTMLDivElement>(null)
@@ -1109,11 +2542,21 @@ export default function EditorPage(): JSX.Element {
   const infoRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const previewerRef = useRef<Previewer | null>(null)
-  const [isLoading, setIsLoading] = useState<boolean>(false)
+  // 载入进度 0-1，未在载入时为 null
+  const [loadProgress, setLoadProgress] = useState<number | null>(null)
   const [adofaiFile, setAdofaiFile] = useState<any>(null)
   const [mounted, setMounted] = useState(false)
   const [themeReady, setThemeReady] = useState(false)
   const [playbackState, setPlaybackState] = useState<PlaybackState>(PlaybackState.HOLDING)
+  const [startTile, setStartTile] = useState<number>(0)
+  const [inputMode, setInputMode] = useState<boolean>(false)
+  const [effectsEnabled, setEffectsEnabled] = useState<boolean>(readEffectsEnabled)
+  const [judgementSummary, setJudgementSummary] = useState<JudgementSummary | null>(null)
+  const [tool, setTool] = useState<EditorTool>("move")
+  const [selectedTiles, setSelectedTiles] = useState<number[]>([])
+  const [showLevelSettings, setShowLevelSettings] = useState<boolean>(false)
+  // 关卡被编辑后递增，用于刷新砖块数量等信息
+  const [, setLevelVersion] = useState<number>(0)
   const { theme, resolvedTheme } = useTheme()
   const { t, mounted: i18nMounted } = useI18n()
 
@@ -1142,6 +2585,63 @@ export default function EditorPage(): JSX.Element {
   // 播放状态变化回调
   const handlePlaybackStateChange = useCallback((state: PlaybackState) => {
     setPlaybackState(state)
+    // 一次练习结束后保存统计结果
+    if (state === PlaybackState.HOLDING) {
+      setJudgementSummary(previewerRef.current?.getJudgementSummary() ?? null)
+    }
+  }, [])
+
+  // 同步练习模式，载入新关卡时清除上一次的统计
+  useEffect(() => {
+    previewerRef.current?.setInputMode(inputMode)
+  }, [inputMode, adofaiFile])
+
+  useEffect(() => {
+    setJudgementSummary(null)
+  }, [adofaiFile])
+
+  // 同步屏幕特效开关，并保存以便下次打开时沿用
+  useEffect(() => {
+    previewerRef.current?.setEffectsEnabled(effectsEnabled)
+    try {
+      localStorage.setItem(EFFECTS_STORAGE_KEY, String(effectsEnabled))
+    } catch (error) {
+      console.warn("Failed to save screen effects setting:", error)
+    }
+  }, [effectsEnabled, adofaiFile])
+
+  // 播放起点变化回调
+  const handleStartTileChange = useCallback((index: number) => {
+    setStartTile(index)
+  }, [])
+
+  // 选中砖块变化回调
+  const handleSelectionChange = useCallback((indices: number[]) => {
+    setSelectedTiles(indices)
+  }, [])
+
+  // 关卡编辑回调
+  const handleLevelChange = useCallback(() => {
+    setLevelVersion((version) => version + 1)
+  }, [])
+
+  // 同步编辑工具，载入新关卡时清除选择
+  useEffect(() => {
+    previewerRef.current?.setTool(tool)
+  }, [tool, adofaiFile])
+
+  useEffect(() => {
+    setSelectedTiles([])
+  }, [adofaiFile])
+
+  // 从选中的砖块开始播放
+  const playFromHere = useCallback(() => {
+    previewerRef.current?.playFrom(startTile)
+  }, [startTile])
+
+  // 从头开始播放
+  const playFromStart = useCallback(() => {
+    previewerRef.current?.playFrom(0)
   }, [])
 
   // 播放/暂停切换
@@ -1177,64 +2677,153 @@ export default function EditorPage(): JSX.Element {
     }
   }, [adofaiFile, t])
 
-  // 文件加载处理
-  const handleFileLoad = useCallback(
-    (event: React.ChangeEvent<HTMLInputElement>): void => {
-      const file = event.target.files?.[0]
-      if (!file) return
+  // 载入与关卡同目录的歌曲文件
+  const loadLevelSong = useCallback(
+    (previewer: Previewer, level: any, files: File[]): void => {
+      const songFilename = level.settings?.songFilename
+      if (!songFilename) return
 
-      setIsLoading(true)
+      const songFile = findFileByName(files, songFilename)
+      if (!songFile) {
+        window.showNotification?.("warning", t("editor.notifications.songNotFound"))
+        return
+      }
+
+      songFile
+        .arrayBuffer()
+        .then((data) => previewer.loadSong(data))
+        .then(() => {
+          window.showNotification?.("success", t("editor.notifications.songLoaded"))
+        })
+        .catch((error) => {
+          console.error("Song load error:", error)
+          window.showNotification?.("error", t("editor.notifications.songLoadError"))
+        })
+    },
+    [t],
+  )
+
+  // 载入装饰与背景图片，缺失的文件只提示，不影响关卡显示
+  const loadLevelImages = useCallback(
+    (previewer: Previewer, files: File[]): void => {
+      previewer
+        .loadLevelImages(files)
+        .then((missing) => {
+          if (missing.length > 0) {
+            window.showNotification?.("warning", `${t("editor.notifications.imagesNotFound")} ${missing.join(", ")}`)
+          }
+        })
+        .catch((error) => console.error("Level image load error:", error))
+    },
+    [t],
+  )
+
+  // 文件加载处理：files 中包含关卡文件以及歌曲等资源
+  const openLevelFiles = useCallback(
+    (files: File[]): void => {
+      const file = findLevelFile(files)
+      if (!file) {
+        window.showNotification?.("error", t("editor.notifications.noLevelFile"))
+        return
+      }
+
+      setLoadProgress(0)
       const reader = new FileReader()
 
+      reader.onprogress = (e): void => {
+        if (e.lengthComputable && e.total > 0) {
+          setLoadProgress((e.loaded / e.total) * FILE_READ_PROGRESS)
+        }
+      }
+
       reader.onload = async (e): Promise<void> => {
         try {
           const content = e.target?.result as string
 
-          // 使用ADOFAI.js解析文件
-          const level = new ADOFAI.Level(content, Hjson)
-
-          level.on("load", (loadedLevel: any): void => {
-            loadedLevel.calculateTileCoordinates()
-            setAdofaiFile(loadedLevel)
-
-            // 关键修改：在创建新的Previewer之前，先清理旧的
-            if (previewerRef.current) {
-              console.log("Disposing old Previewer...")
-              previewerRef.current.dispose()
-              previewerRef.current = null
-            }
-
-            // 创建新的Previewer
-            if (containerRef.current && fpsCounterRef.current && infoRef.current) {
-              previewerRef.current = new Previewer(
-                loadedLevel,
-                containerRef.current,
-                fpsCounterRef.current,
-                infoRef.current,
-                t,
-                handlePlaybackStateChange,
-              )
-            }
-            window.showNotification?.("success", t("editor.notifications.loadSuccess"))
+          // 在 Worker 中解析文件并计算砖块坐标
+          const loadedLevel: any = await loadLevel(content, (progress) => {
+            setLoadProgress(FILE_READ_PROGRESS + progress * (1 - FILE_READ_PROGRESS))
           })
+          setAdofaiFile(loadedLevel)
+
+          // 关键修改：在创建新的Previewer之前，先清理旧的
+          if (previewerRef.current) {
+            console.log("Disposing old Previewer...")
+            previewerRef.current.dispose()
+            previewerRef.current = null
+          }
 
-          await level.load()
+          // 创建新的Previewer
+          if (containerRef.current && fpsCounterRef.current && infoRef.current) {
+            previewerRef.current = new Previewer(
+              loadedLevel,
+              containerRef.current,
+              fpsCounterRef.current,
+              infoRef.current,
+              t,
+              handlePlaybackStateChange,
+              handleStartTileChange,
+              handleSelectionChange,
+              handleLevelChange,
+            )
+            setStartTile(0)
+            loadLevelSong(previewerRef.current, loadedLevel, files)
+            loadLevelImages(previewerRef.current, files)
+          }
+          window.showNotification?.("success", t("editor.notifications.loadSuccess"))
         } catch (error) {
           window.showNotification?.("error", t("editor.notifications.loadError"))
           console.error(error)
         } finally {
-          setIsLoading(false)
+          setLoadProgress(null)
         }
       }
 
       reader.onerror = (): void => {
         window.showNotification?.("error", t("editor.notifications.fileReadError"))
-        setIsLoading(false)
+        setLoadProgress(null)
       }
 
       reader.readAsText(file)
     },
-    [t, handlePlaybackStateChange],
+    [
+      t,
+      handlePlaybackStateChange,
+      handleStartTileChange,
+      handleSelectionChange,
+      handleLevelChange,
+      loadLevelSong,
+      loadLevelImages,
+    ],
+  )
+
+  const handleFileLoad = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>): void => {
+      const files = Array.from(event.target.files || [])
+      // 清空选择，允许重复选择同一文件
+      event.target.value = ""
+      if (files.length === 0) return
+      openLevelFiles(files)
+    },
+    [openLevelFiles],
+  )
+
+  // 拖入关卡文件或整个关卡文件夹
+  const handleDrop = useCallback(
+    (event: React.DragEvent<HTMLDivElement>): void => {
+      event.preventDefault()
+      if (playbackState !== PlaybackState.HOLDING) return
+
+      collectDroppedFiles(event.dataTransfer)
+        .then((files) => {
+          if (files.length > 0) openLevelFiles(files)
+        })
+        .catch((error) => {
+          console.error("Drop error:", error)
+          window.showNotification?.("error", t("editor.notifications.fileReadError"))
+        })
+    },
+    [openLevelFiles, playbackState, t],
   )
 
   // 键盘快捷键
@@ -1255,40 +2844,51 @@ export default function EditorPage(): JSX.Element {
     if (!mounted || !i18nMounted || !themeReady) return
 
     const initializeExample = async (): Promise<void> => {
+      setLoadProgress(0)
       try {
-        const level = new ADOFAI.Level(example, Hjson)
-        level.on("load", (loadedLevel: any): void => {
-          loadedLevel.calculateTileCoordinates()
-          setAdofaiFile(loadedLevel)
-
-          if (previewerRef.current) {
-            console.log("Disposing old Previewer...")
-            previewerRef.current.dispose()
-            previewerRef.current = null
-          }
+        const loadedLevel: any = await loadLevel(example, setLoadProgress)
+        setAdofaiFile(loadedLevel)
 
-          if (containerRef.current && fpsCounterRef.current && infoRef.current) {
-            previewerRef.current = new Previewer(
-              loadedLevel,
-              containerRef.current,
-              fpsCounterRef.current,
-              infoRef.current,
-              t,
-              handlePlaybackStateChange,
-            )
-          }
-          window.showNotification?.("success", t("editor.notifications.loadSuccess"))
-        })
+        if (previewerRef.current) {
+          console.log("Disposing old Previewer...")
+          previewerRef.current.dispose()
+          previewerRef.current = null
+        }
 
-        await level.load()
+        if (containerRef.current && fpsCounterRef.current && infoRef.current) {
+          previewerRef.current = new Previewer(
+            loadedLevel,
+            containerRef.current,
+            fpsCounterRef.current,
+            infoRef.current,
+            t,
+            handlePlaybackStateChange,
+            handleStartTileChange,
+            handleSelectionChange,
+            handleLevelChange,
+          )
+          setStartTile(0)
+        }
+        window.showNotification?.("success", t("editor.notifications.loadSuccess"))
       } catch (error) {
         window.showNotification?.("error", t("editor.notifications.loadError"))
         console.error(error)
+      } finally {
+        setLoadProgress(null)
       }
     }
 
     initializeExample()
-  }, [mounted, i18nMounted, themeReady, t, handlePlaybackStateChange])
+  }, [
+    mounted,
+    i18nMounted,
+    themeReady,
+    t,
+    handlePlaybackStateChange,
+    handleStartTileChange,
+    handleSelectionChange,
+    handleLevelChange,
+  ])
 
   // 监听窗口大小变化，触发Previewer的resize
   useEffect(() => {
@@ -1344,8 +2944,20 @@ export default function EditorPage(): JSX.Element {
         <header
           className={`${
             isDark ? "bg-slate-800 border-slate-700" : "bg-white border-slate-200"
-          } border-b px-4 py-3 flex justify-between items-center flex-shrink-0`}
+          } relative border-b px-4 py-3 flex justify-between items-center flex-shrink-0`}
         >
+          {loadProgress !== null && (
+            <div
+              className={`absolute left-0 bottom-0 w-full h-0.5 ${isDark ? "bg-slate-700" : "bg-slate-200"}`}
+              role="progressbar"
+              aria-label={t("common.loading")}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(loadProgress * 100)}
+            >
+              <div className="h-full bg-blue-500 transition-[width]" style={{ width: `${loadProgress * 100}%` }} />
+            </div>
+          )}
           <div className="flex items-center gap-4">
             <Link to="/">
               <Button
@@ -1365,7 +2977,14 @@ export default function EditorPage(): JSX.Element {
           </div>
 
           <div className="flex items-center gap-2">
-            <input ref={fileInputRef} type="file" accept=".adofai,.json" onChange={handleFileLoad} className="hidden" />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".adofai,.json,audio/*,.ogg,.mp3,.wav"
+              multiple
+              onChange={handleFileLoad}
+              className="hidden"
+            />
             <Button
               variant="ghost"
               size="sm"
@@ -1375,11 +2994,11 @@ export default function EditorPage(): JSX.Element {
                   : "text-slate-700 hover:text-slate-900 hover:bg-slate-100"
               }`}
               onClick={() => fileInputRef.current?.click()}
-              disabled={isLoading}
+              disabled={loadProgress !== null}
               id="butload"
             >
               <Upload className="w-4 h-4 mr-2" />
-              {isLoading ? t("common.loading") : t("editor.loadFile")}
+              {loadProgress !== null ? `${t("common.loading")} ${Math.round(loadProgress * 100)}%` : t("editor.loadFile")}
             </Button>
             <Button
               variant="ghost"
@@ -1450,6 +3069,24 @@ export default function EditorPage(): JSX.Element {
                     {t("editor.offset")}: {adofaiFile?.settings?.offset || 0}ms
                   </div>
                 </div>
+                <Button
+                  variant={showLevelSettings ? "default" : "outline"}
+                  size="sm"
+                  className={`w-full mt-2 ${
+                    showLevelSettings
+                      ? ""
+                      : `${
+                          isDark
+                            ? "border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                            : "border-slate-300 text-slate-700 hover:bg-slate-50 hover:text-slate-900"
+                        } bg-transparent`
+                  }`}
+                  onClick={() => setShowLevelSettings((show) => !show)}
+                  disabled={!adofaiFile}
+                >
+                  <SlidersHorizontal className="w-4 h-4 mr-2" />
+                  {t("editor.levelSettings.title")}
+                </Button>
               </div>
 
               <div>
@@ -1457,6 +3094,38 @@ export default function EditorPage(): JSX.Element {
                   {t("editor.tools")}
                 </h3>
                 <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant={tool === "select" ? "default" : "outline"}
+                    size="sm"
+                    className={
+                      tool === "select"
+                        ? ""
+                        : `${
+                            isDark
+                              ? "border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                              : "border-slate-300 text-slate-700 hover:bg-slate-50 hover:text-slate-900"
+                          } bg-transparent`
+                    }
+                    onClick={() => setTool("select")}
+                  >
+                    {t("editor.select")}
+                  </Button>
+                  <Button
+                    variant={tool === "move" ? "default" : "outline"}
+                    size="sm"
+                    className={
+                      tool === "move"
+                        ? ""
+                        : `${
+                            isDark
+                              ? "border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                              : "border-slate-300 text-slate-700 hover:bg-slate-50 hover:text-slate-900"
+                          } bg-transparent`
+                    }
+                    onClick={() => setTool("move")}
+                  >
+                    {t("editor.move")}
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -1465,8 +3134,10 @@ export default function EditorPage(): JSX.Element {
                         ? "border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
                         : "border-slate-300 text-slate-700 hover:bg-slate-50 hover:text-slate-900"
                     } bg-transparent`}
+                    onClick={() => previewerRef.current?.addTile()}
+                    disabled={!adofaiFile}
                   >
-                    {t("editor.select")}
+                    {t("editor.addTile")}
                   </Button>
                   <Button
                     variant="outline"
@@ -1476,8 +3147,10 @@ export default function EditorPage(): JSX.Element {
                         ? "border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
                         : "border-slate-300 text-slate-700 hover:bg-slate-50 hover:text-slate-900"
                     } bg-transparent`}
+                    onClick={() => previewerRef.current?.removeSelectedTiles()}
+                    disabled={!selectedTiles.some((index) => index > 0)}
                   >
-                    {t("editor.move")}
+                    {t("editor.removeTile")}
                   </Button>
                   <Button
                     variant="outline"
@@ -1487,8 +3160,12 @@ export default function EditorPage(): JSX.Element {
                         ? "border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
                         : "border-slate-300 text-slate-700 hover:bg-slate-50 hover:text-slate-900"
                     } bg-transparent`}
+                    onClick={() => previewerRef.current?.undo()}
+                    disabled={!previewerRef.current?.canUndo()}
+                    title="Ctrl + Z"
                   >
-                    {t("editor.addTile")}
+                    <Undo2 className="w-4 h-4 mr-1" />
+                    {t("editor.undo")}
                   </Button>
                   <Button
                     variant="outline"
@@ -1498,17 +3175,115 @@ export default function EditorPage(): JSX.Element {
                         ? "border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
                         : "border-slate-300 text-slate-700 hover:bg-slate-50 hover:text-slate-900"
                     } bg-transparent`}
+                    onClick={() => previewerRef.current?.redo()}
+                    disabled={!previewerRef.current?.canRedo()}
+                    title="Ctrl + Y"
                   >
-                    {t("editor.removeTile")}
+                    <Redo2 className="w-4 h-4 mr-1" />
+                    {t("editor.redo")}
+                  </Button>
+                </div>
+                <div className={`text-sm mt-2 ${isDark ? "text-slate-400" : "text-slate-500"}`}>
+                  {t("editor.selectedTiles")}:{" "}
+                  {selectedTiles.length === 1 ? selectedTiles[0] : selectedTiles.length}
+                </div>
+                <p className={`text-xs mt-2 ${isDark ? "text-slate-500" : "text-slate-400"}`}>
+                  {t("editor.angleInput.hint")}
+                </p>
+              </div>
+
+              <div>
+                <h3 className={`text-sm font-medium ${isDark ? "text-slate-300" : "text-slate-700"} mb-2`}>
+                  {t("editor.playback")}
+                </h3>
+                <div className={`text-sm mb-2 ${isDark ? "text-slate-400" : "text-slate-500"}`}>
+                  {t("editor.startTile")}: {startTile}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={`${
+                      isDark
+                        ? "border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                        : "border-slate-300 text-slate-700 hover:bg-slate-50 hover:text-slate-900"
+                    } bg-transparent`}
+                    onClick={playFromHere}
+                    disabled={!adofaiFile}
+                  >
+                    <Play className="w-4 h-4 mr-1" />
+                    {t("editor.playFromHere")}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={`${
+                      isDark
+                        ? "border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                        : "border-slate-300 text-slate-700 hover:bg-slate-50 hover:text-slate-900"
+                    } bg-transparent`}
+                    onClick={playFromStart}
+                    disabled={!adofaiFile}
+                  >
+                    <SkipBack className="w-4 h-4 mr-1" />
+                    {t("editor.playFromStart")}
                   </Button>
                 </div>
+                <label
+                  className={`flex items-center gap-2 mt-3 text-sm cursor-pointer ${
+                    isDark ? "text-slate-300" : "text-slate-700"
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    className="accent-purple-500"
+                    checked={inputMode}
+                    onChange={(e) => setInputMode(e.target.checked)}
+                  />
+                  {t("editor.inputMode")}
+                </label>
+                <label
+                  className={`flex items-center gap-2 mt-2 text-sm cursor-pointer ${
+                    isDark ? "text-slate-300" : "text-slate-700"
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    className="accent-purple-500"
+                    checked={effectsEnabled}
+                    onChange={(e) => setEffectsEnabled(e.target.checked)}
+                  />
+                  {t("editor.screenEffects")}
+                </label>
+                {judgementSummary && (
+                  <div className={`mt-2 text-sm ${isDark ? "text-slate-400" : "text-slate-500"}`}>
+                    <div className={`font-medium ${isDark ? "text-slate-300" : "text-slate-700"}`}>
+                      {t("editor.judgement.accuracy")}: {judgementSummary.accuracy.toFixed(2)}%
+                    </div>
+                    <div className="grid grid-cols-2 gap-x-2 mt-1">
+                      {JUDGEMENTS.map((judgement) => (
+                        <div key={judgement} className="flex justify-between">
+                          <span style={{ color: JUDGEMENT_COLORS[judgement] }}>
+                            {t(`editor.judgement.${judgement}`)}
+                          </span>
+                          <span className="font-mono">{judgementSummary.counts[judgement]}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </aside>
         )}
 
         {/* Main Canvas Area */}
-        <div ref={containerRef} className="flex-1 relative">
+        <div
+          ref={containerRef}
+          className="flex-1 relative"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDrop}
+        >
           <div
             ref={fpsCounterRef}
             className="absolute top-4 left-4 text-sm font-medium text-white bg-black bg-opacity-50 px-2 py-1 rounded"
@@ -1521,7 +3296,29 @@ export default function EditorPage(): JSX.Element {
           >
             {/* Info will be updated dynamically */}
           </div>
+          <TransportBar
+            previewerRef={previewerRef}
+            level={adofaiFile}
+            playbackState={playbackState}
+            isDark={isDark}
+            t={t}
+            onTogglePlayback={togglePlayback}
+          />
         </div>
+
+        {/* 事件检查器与关卡设置 - 只在 holding 状态显示 */}
+        {playbackState === PlaybackState.HOLDING &&
+          adofaiFile &&
+          (showLevelSettings ? (
+            <LevelSettingsPanel
+              previewerRef={previewerRef}
+              isDark={isDark}
+              t={t}
+              onClose={() => setShowLevelSettings(false)}
+            />
+          ) : (
+            <ActionInspector previewerRef={previewerRef} selectedTiles={selectedTiles} isDark={isDark} t={t} />
+          ))}
       </div>
     </div>
   )